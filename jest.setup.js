@@ -0,0 +1,3 @@
+// Specs keep all state in memory and only log errors
+process.env.STORAGE_DRIVER = 'memory';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
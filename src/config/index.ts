@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import os from 'os';
 
 dotenv.config();
 
@@ -19,6 +20,85 @@ export const config = {
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
     password: process.env.REDIS_PASSWORD || undefined,
+    keyPrefix: process.env.REDIS_KEY_PREFIX || 'cloudchef:',
+  },
+
+  // Cluster mode (several instances sharing state through Redis)
+  cluster: {
+    enabled: process.env.CLUSTER_MODE === 'true',
+    nodeId: process.env.NODE_ID || `${os.hostname()}-${process.pid}-${Date.now().toString(36)}`,
+    heartbeatIntervalMs: parseInt(process.env.CLUSTER_HEARTBEAT_MS || '10000', 10),
+    nodeTtlMs: parseInt(process.env.CLUSTER_NODE_TTL_MS || '30000', 10),
+  },
+
+  // Storage
+  storage: {
+    driver: process.env.STORAGE_DRIVER || 'file', // 'file' | 'memory' | 'redis'
+    dataDir: process.env.DATA_DIR || './data',
+    maxPrintHistory: parseInt(process.env.MAX_PRINT_HISTORY || '10000', 10),
+  },
+
+  // Offline print queue
+  printQueue: {
+    offlineTtlMs: parseInt(process.env.OFFLINE_QUEUE_TTL_MS || '900000', 10), // 15 minutes
+    maxQueuedPerRestaurant: parseInt(process.env.OFFLINE_QUEUE_MAX_JOBS || '200', 10),
+    idempotencyWindowMs: parseInt(process.env.IDEMPOTENCY_WINDOW_MS || '86400000', 10), // 24 hours
+  },
+
+  // Print delivery (ack / timeout / retry)
+  delivery: {
+    ackTimeoutMs: parseInt(process.env.PRINT_ACK_TIMEOUT_MS || '10000', 10),
+    resultTimeoutMs: parseInt(process.env.PRINT_RESULT_TIMEOUT_MS || '120000', 10),
+    maxAttempts: parseInt(process.env.PRINT_MAX_ATTEMPTS || '3', 10),
+    retryBackoffMs: parseInt(process.env.PRINT_RETRY_BACKOFF_MS || '2000', 10),
+    retryBackoffMaxMs: parseInt(process.env.PRINT_RETRY_BACKOFF_MAX_MS || '30000', 10),
+    waitTimeoutMs: parseInt(process.env.PRINT_WAIT_TIMEOUT_MS || '30000', 10), // REST `wait=true` limit
+  },
+
+  // Agent selection for print jobs (restaurants can override the strategy)
+  agentSelection: {
+    defaultStrategy: process.env.AGENT_SELECTION_STRATEGY || 'least-outstanding', // round-robin | least-outstanding | last-used | capability-match
+  },
+
+  // Outbound webhooks
+  webhooks: {
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10),
+    retryBackoffMs: parseInt(process.env.WEBHOOK_RETRY_BACKOFF_MS || '30000', 10),
+    retryBackoffMaxMs: parseInt(process.env.WEBHOOK_RETRY_BACKOFF_MAX_MS || '3600000', 10), // 1 hour
+    deliveryLogSize: parseInt(process.env.WEBHOOK_DELIVERY_LOG_SIZE || '200', 10), // Per subscription
+    deliveryRetentionDays: parseFloat(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS || '7'), // Finished deliveries
+    // Plain http targets, allowed in development only unless enabled
+    allowHttp: process.env.WEBHOOK_ALLOW_HTTP === 'true' || (process.env.NODE_ENV || 'development') === 'development',
+    // Loopback, private and link-local targets (on-premise receivers)
+    allowPrivateTargets: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true',
+  },
+
+  // Printer alerts (paper low/out, printer errors)
+  printerAlerts: {
+    debounceMs: parseInt(process.env.PRINTER_ALERT_DEBOUNCE_MS || '30000', 10), // Condition must hold this long
+    retentionDays: parseFloat(process.env.PRINTER_ALERT_RETENTION_DAYS || '30'), // Resolved alerts are kept this long
+  },
+
+  // Agent tokens
+  agentTokens: {
+    store: process.env.AGENT_TOKEN_STORE || 'supabase', // 'supabase' | 'local' (kept with the storage driver)
+    rotationGraceHours: parseFloat(process.env.AGENT_TOKEN_ROTATION_GRACE_HOURS || '24'), // Replaced token keeps working
+  },
+
+  // Device pairing of new agents
+  pairing: {
+    codeTtlMs: parseInt(process.env.PAIRING_CODE_TTL_MS || '600000', 10), // 10 minutes
+    rateLimitWindowMs: parseInt(process.env.PAIRING_RATE_LIMIT_WINDOW_MS || '600000', 10),
+    maxCodesPerWindow: parseInt(process.env.PAIRING_MAX_CODES_PER_WINDOW || '5', 10), // Per agent IP
+    maxApprovalAttempts: parseInt(process.env.PAIRING_MAX_APPROVAL_ATTEMPTS || '20', 10), // Per manager IP
+  },
+
+  // Label rendering
+  labels: {
+    defaultLayout: process.env.LABEL_DEFAULT_LAYOUT || 'standard-58x60',
+    defaultDpi: parseInt(process.env.LABEL_DEFAULT_DPI || '203', 10),
+    defaultLanguage: process.env.LABEL_DEFAULT_LANGUAGE || 'zpl', // for unknown printer models
   },
 
   // JWT
@@ -55,10 +135,9 @@ export const config = {
   isProduction: process.env.NODE_ENV === 'production',
 };
 
-// Validate required config
+// Validate required config (Supabase only holds agent tokens)
 const requiredConfig = [
-  'SUPABASE_URL',
-  'SUPABASE_ANON_KEY',
+  ...(config.agentTokens.store === 'supabase' ? ['SUPABASE_URL', 'SUPABASE_ANON_KEY'] : []),
   'JWT_SECRET',
 ];
 
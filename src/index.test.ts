@@ -0,0 +1,62 @@
+import jwt from 'jsonwebtoken';
+import { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { Server as SocketServer } from 'socket.io';
+
+// Boots the whole server on a random port; its housekeeping intervals are
+// unref'd so they do not keep the test run alive
+describe('REST permissions', () => {
+  let baseUrl: string;
+  let httpServer: Server;
+  let io: SocketServer;
+  let token: (role: string) => string;
+
+  beforeAll(async () => {
+    process.env.PORT = '0';
+    process.env.HOST = '127.0.0.1';
+    const setInterval = global.setInterval;
+    jest.spyOn(global, 'setInterval').mockImplementation(((...args: Parameters<typeof setInterval>) =>
+      setInterval(...args).unref()) as typeof setInterval);
+
+    const server = await import('./index');
+    const { config } = await import('./config');
+    ({ httpServer, io } = server);
+    if (!httpServer.listening) {
+      await new Promise((resolve) => httpServer.once('listening', resolve));
+    }
+
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+    token = (role) => jwt.sign({ userId: 'u1', restaurantId: 'r1', role }, config.jwt.secret);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => io.close(resolve));
+  });
+
+  const call = (method: string, path: string, role: string, body?: object) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token(role)}`, 'Content-Type': 'application/json' },
+      body: body && JSON.stringify(body),
+    });
+
+  const rule = { restaurantId: 'r1', productName: 'Борщ', storageMethod: 'охлаждение', shelfLifeHours: 48 };
+
+  it.each([
+    ['POST', '/api/shelf-life-rules', rule],
+    ['PUT', '/api/shelf-life-rules/rule-1', { shelfLifeHours: 24 }],
+    ['DELETE', '/api/shelf-life-rules/rule-1', undefined],
+    ['POST', '/api/printer-alerts/alert-1/acknowledge', undefined],
+    ['POST', '/api/printer-alerts/alert-1/resolve', undefined],
+  ])('refuses %s %s to web clients', async (method, path, body) => {
+    const response = await call(method, path, 'web-client', body);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'PERMISSION_DENIED' });
+  });
+
+  it('lets managers change shelf-life rules and alerts', async () => {
+    expect((await call('POST', '/api/shelf-life-rules', 'manager', rule)).status).toBe(201);
+    expect((await call('POST', '/api/printer-alerts/alert-1/resolve', 'manager')).status).toBe(404);
+  });
+});
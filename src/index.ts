@@ -4,16 +4,62 @@ import { Server } from 'socket.io';
 import cors from 'cors';
 import helmet from 'helmet';
 import jwt from 'jsonwebtoken';
-import { randomBytes } from 'crypto';
 import path from 'path';
+import { z } from 'zod';
 import { config } from './config';
 import { logger } from './utils/logger';
-import { httpRateLimiter } from './middleware/rateLimit';
+import { httpRateLimiter, pairingApprovalRateLimiter, printRateLimiter } from './middleware/rateLimit';
 import { initializeSocketHandlers } from './socket/handlers';
-import { agentManager } from './services/AgentManager';
+import { agentManager, getAgentPrinters } from './services/AgentManager';
 import { printQueueManager } from './services/PrintQueueManager';
+import { clusterManager } from './services/ClusterManager';
+import { printDispatcher, isFinalStatus } from './services/PrintDispatcher';
+import { shelfLifeManager } from './services/ShelfLifeManager';
+import { restaurantSettingsManager } from './services/RestaurantSettingsManager';
+import { agentSelector } from './services/AgentSelector';
+import { stationRoutingManager } from './services/StationRoutingManager';
+import { printerAlertManager } from './services/PrinterAlertManager';
+import { webhookManager } from './services/WebhookManager';
+import { agentTokenManager } from './services/AgentTokenManager';
+import { pairingManager } from './services/PairingManager';
+import { openRecordStores, closeRecordStores } from './storage';
 import { verifyHttpToken } from './middleware/auth';
-import { supabaseAdmin } from './utils/supabase';
+import { guardHttp } from './middleware/permissions';
+import { canAccessRestaurant, getAllowedRestaurants, tenantDeniedResponse, tenantForbidden } from './middleware/tenant';
+import { metricsRegistry, PROMETHEUS_CONTENT_TYPE } from './utils/metrics';
+import { checkWebhookUrl } from './utils/webhookTarget';
+import { layouts, renderPreview, validatePreviewOptions, PreviewOptions } from './labels';
+import {
+  validate,
+  generateAgentTokenSchema,
+  rotateAgentTokenSchema,
+  approvePairingSchema,
+  previewRequestSchema,
+  printRequestSchema,
+  printBatchRequestSchema,
+  reprintRequestSchema,
+  cancelPrintSchema,
+  restaurantSettingsSchema,
+  stationRoutingRuleSchema,
+  stationRoutingRuleUpdateSchema,
+  shelfLifeRuleSchema,
+  shelfLifeRuleUpdateSchema,
+  webhookSubscriptionSchema,
+  webhookSubscriptionUpdateSchema,
+} from './validation';
+import { validationErrorResponse } from './middleware/validate';
+import {
+  AgentTokenRecord,
+  AuthPayload,
+  FieldError,
+  Permission,
+  PrintCommand,
+  PrintErrorCode,
+  PairingRequest,
+  PrinterAlert,
+  PrintResponse,
+  WebhookSubscription,
+} from './types';
 
 // Create Express app
 const app = express();
@@ -48,6 +94,71 @@ if (config.security.trustProxy) {
   app.set('trust proxy', 1);
 }
 
+// HTTP status of rejected print requests
+const PRINT_ERROR_STATUS: Record<PrintErrorCode, number> = {
+  VALIDATION_FAILED: 400,
+  UNKNOWN_LAYOUT: 400,
+  AGENT_NOT_FOUND: 404,
+  PRINTER_NOT_FOUND: 404,
+  PRINTER_INCOMPATIBLE: 422,
+  QUEUE_FULL: 503,
+  COMMAND_NOT_FOUND: 404,
+  NOT_CANCELLABLE: 409,
+  TENANT_FORBIDDEN: 403,
+  PERMISSION_DENIED: 403,
+};
+
+/**
+ * How long a `wait=true` print request may be held open
+ */
+const printWaitTimeout = (req: express.Request): number => {
+  const requested = parseInt(req.query.timeoutMs as string) || config.delivery.waitTimeoutMs;
+  return Math.min(Math.max(requested, 0), config.delivery.waitTimeoutMs);
+};
+
+const isWaitRequested = (req: express.Request): boolean => req.query.wait === 'true' || req.query.wait === '1';
+
+const printCommandView = (command: PrintCommand) => ({
+  commandId: command.id,
+  restaurantId: command.restaurantId,
+  agentId: command.agentId,
+  printerId: command.printerId,
+  status: command.status,
+  attempts: command.attempts || 0,
+  error: command.error,
+  createdAt: command.createdAt,
+  completedAt: command.completedAt,
+  expiryDate: command.items ? undefined : command.labelData?.expiryDate,
+  shelfLife: command.shelfLife,
+  copies: command.copies || 1,
+  reprintOf: command.reprintOf,
+  requirements: command.requirements,
+  items: command.items?.map((item, index) => ({
+    index,
+    productName: item.labelData.productName,
+    expiryDate: item.labelData.expiryDate,
+    copies: item.copies,
+    status: item.status,
+    error: item.error,
+  })),
+});
+
+/**
+ * Status of every printer of the online agents, one entry per printer
+ */
+const printerStatuses = () =>
+  agentManager.getAllAgents().flatMap((agent) =>
+    getAgentPrinters(agent).map((printer) => ({
+      agentId: agent.id,
+      restaurantId: agent.restaurantId,
+      printerId: printer.id,
+      name: printer.name,
+      model: printer.model,
+      status: printer.status,
+      paperStatus: printer.paperStatus,
+    }))
+  );
+
 // Serve static files from root directory (for generate-token.html)
 app.use(express.static(path.join(__dirname, '..')));
 
@@ -63,10 +174,13 @@ app.get('/health', (req, res) => {
   res.status(200).json(health);
 });
 
-// Metrics endpoint (public)
-app.get('/metrics', (req, res) => {
+/**
+ * JSON view of /metrics: cluster-wide agents and printers
+ */
+const jsonMetrics = async () => {
   const stats = printQueueManager.getStats();
-  const metrics = {
+  const printers = printerStatuses();
+  return {
     server: {
       uptime: process.uptime(),
       environment: config.nodeEnv,
@@ -77,19 +191,81 @@ app.get('/metrics', (req, res) => {
       byRestaurant: agentManager.getAgentsByRestaurantGrouped(),
       ready: agentManager.getAllAgents().filter(a => a.printerInfo?.status === 'ready').length,
     },
+    printers: {
+      total: printers.length,
+      ready: printers.filter(p => p.status === 'ready').length,
+      busy: printers.filter(p => p.status === 'busy').length,
+      error: printers.filter(p => p.status === 'error').length,
+      paperLow: printers.filter(p => p.paperStatus === 'low').length,
+      paperOut: printers.filter(p => p.paperStatus === 'out').length,
+      list: printers,
+    },
     prints: {
       total: stats.total || 0,
+      queued: stats.queued || 0,
       pending: stats.pending || 0,
       printing: stats.printing || 0,
       success: stats.success || 0,
       failed: stats.failed || 0,
+      deadLetter: stats.deadLetter || 0,
+      cancelled: stats.cancelled || 0,
     },
     websocket: {
       connections: io.sockets.sockets.size,
     },
+    cluster: {
+      enabled: clusterManager.isEnabled(),
+      nodeId: clusterManager.nodeId,
+      nodes: await clusterManager.getNodes(),
+      localAgents: agentManager.getLocalAgents().length,
+    },
     timestamp: new Date().toISOString(),
   };
-  res.status(200).json(metrics);
+};
+
+metricsRegistry.gauge('cloudchef_agents_connected', 'Agents connected to this node, by restaurant', () =>
+  Object.entries(
+    agentManager.getLocalAgents().reduce<Record<string, number>>((grouped, agent) => {
+      const restaurant = agent.restaurantId || 'unknown';
+      grouped[restaurant] = (grouped[restaurant] || 0) + 1;
+      return grouped;
+    }, {})
+  ).map(([restaurant, value]) => ({ labels: { restaurant }, value }))
+);
+
+metricsRegistry.gauge('cloudchef_printers', 'Printers of agents connected to this node, by status', () => {
+  const printers = agentManager.getLocalAgents().flatMap(getAgentPrinters);
+  return (['ready', 'busy', 'error'] as const).map((status) => ({
+    labels: { status },
+    value: printers.filter(p => p.status === status).length,
+  }));
+});
+
+// Read from the shared print store, so the same on every cluster node
+metricsRegistry.gauge('cloudchef_print_jobs', 'Print jobs in the history, by status', () =>
+  Object.entries(printQueueManager.getStats())
+    .filter(([status]) => status !== 'total')
+    .map(([status, value]) => ({ labels: { status: status === 'deadLetter' ? 'dead-letter' : status }, value }))
+);
+
+metricsRegistry.gauge('cloudchef_socket_connections', 'Socket.IO connections to this node', () => [
+  { value: io.sockets.sockets.size },
+]);
+
+metricsRegistry.gauge('cloudchef_uptime_seconds', 'Process uptime', () => [{ value: process.uptime() }]);
+
+// Metrics endpoint (public): Prometheus text format, JSON with ?format=json
+// or Accept: application/json
+app.get('/metrics', async (req, res) => {
+  if (!config.monitoring.metricsEnabled) {
+    return res.status(404).json({ error: 'Metrics are disabled' });
+  }
+
+  if (req.query.format === 'json' || req.accepts(['text/plain', 'application/json']) === 'application/json') {
+    return res.status(200).json(await jsonMetrics());
+  }
+
+  res.status(200).type(PROMETHEUS_CONTENT_TYPE).send(metricsRegistry.render());
 });
 
 // Detailed status endpoint (protected)
@@ -99,6 +275,9 @@ app.get('/status', (req, res) => {
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
+  const restaurantIds = getAllowedRestaurants(auth);
+  const agents = agentManager.getAllAgents().filter(agent => restaurantIds.includes(agent.restaurantId));
+
   const status = {
     server: {
       status: 'running',
@@ -107,17 +286,25 @@ app.get('/status', (req, res) => {
       environment: config.nodeEnv,
     },
     agents: {
-      total: agentManager.getCount(),
-      byRestaurant: agentManager.getAgentsByRestaurantGrouped(),
-      list: agentManager.getAllAgents().map(agent => ({
+      total: agents.length,
+      byRestaurant: Object.fromEntries(
+        restaurantIds.map(restaurantId => [restaurantId, agents.filter(agent => agent.restaurantId === restaurantId).length])
+      ),
+      list: agents.map(agent => ({
         id: agent.id,
         restaurantId: agent.restaurantId,
         status: agent.printerInfo?.status || 'unknown',
+        printers: getAgentPrinters(agent).map(printer => ({
+          id: printer.id,
+          name: printer.name,
+          status: printer.status,
+          paperStatus: printer.paperStatus,
+        })),
         lastSeen: agent.lastSeen,
         version: agent.version,
       })),
     },
-    prints: printQueueManager.getStats(),
+    prints: printQueueManager.getStats(restaurantIds),
     memory: process.memoryUsage(),
   };
 
@@ -132,9 +319,12 @@ app.get('/api/agents', (req, res) => {
   }
 
   const restaurantId = req.query.restaurantId as string;
-  const agents = restaurantId
-    ? agentManager.getAgentsByRestaurant(restaurantId)
-    : agentManager.getAllAgents();
+  if (restaurantId && !canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  const agents = (restaurantId ? [restaurantId] : getAllowedRestaurants(auth))
+    .flatMap(id => agentManager.getAgentsByRestaurant(id));
 
   res.status(200).json({ agents });
 });
@@ -145,17 +335,795 @@ app.get('/api/prints', (req, res) => {
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
+  if (!guardHttp(req, res, auth, 'view-history')) {
+    return;
+  }
 
   const limit = parseInt(req.query.limit as string) || 50;
   const restaurantId = req.query.restaurantId as string;
 
-  const commands = restaurantId
-    ? printQueueManager.getCommandsByRestaurant(restaurantId, limit)
-    : printQueueManager.getRecentCommands(limit);
+  if (restaurantId && !canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  const commands = (restaurantId ? [restaurantId] : getAllowedRestaurants(auth))
+    .flatMap(id => printQueueManager.getCommandsByRestaurant(id, limit))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, limit);
 
   res.status(200).json({ commands });
 });
 
+// Get dead-lettered print commands endpoint (protected)
+app.get('/api/prints/dead-letter', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'view-history')) {
+    return;
+  }
+
+  const limit = parseInt(req.query.limit as string) || 50;
+  const restaurantId = req.query.restaurantId as string;
+
+  if (restaurantId && !canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  const commands = (restaurantId ? [restaurantId] : getAllowedRestaurants(auth))
+    .flatMap(id => printQueueManager.getDeadLetterCommands(id, limit))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, limit);
+
+  res.status(200).json({ commands });
+});
+
+/**
+ * Handler for REST print requests: validates the body, submits it through
+ * the dispatcher and, with ?wait=true, holds the response until the agent
+ * reports the result or the wait timeout passes
+ */
+const printRequestHandler = <T extends { idempotencyKey?: string }>(
+  schema: z.ZodType<T>,
+  permission: Permission,
+  submit: (request: T, auth: AuthPayload) => PrintResponse | Promise<PrintResponse>
+) => async (req: express.Request, res: express.Response) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, permission)) {
+    return;
+  }
+
+  // The idempotency key may also come as the standard `Idempotency-Key` header
+  const body = validate(schema, {
+    ...req.body,
+    ...req.params,
+    idempotencyKey: req.body?.idempotencyKey || req.get('Idempotency-Key'),
+  });
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  try {
+    const response = await submit(body.data, auth);
+    if (!response.success) {
+      return res.status(PRINT_ERROR_STATUS[response.code] || 400).json(response);
+    }
+
+    if (!isWaitRequested(req)) {
+      return res.status(response.duplicate ? 200 : 202).json(response);
+    }
+
+    // Still in flight when the wait times out - the client polls GET /api/print/:commandId
+    const command = await printDispatcher.waitForResult(response.commandId, printWaitTimeout(req));
+    if (!isFinalStatus(command.status)) {
+      return res.status(202).json({ success: true, ...printCommandView(command), duplicate: response.duplicate });
+    }
+    res.status(200).json({
+      success: command.status === 'success',
+      ...printCommandView(command),
+      duplicate: response.duplicate,
+    });
+  } catch (err) {
+    logger.error('REST print request failed', {
+      path: req.path,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+    res.status(500).json({ success: false, error: 'Print request failed' });
+  }
+};
+
+const RESTAURANT_REQUIRED: PrintResponse = {
+  success: false,
+  error: 'Restaurant ID is required',
+  code: 'VALIDATION_FAILED',
+};
+
+// Print a label endpoint (protected, supports ?wait=true)
+app.post(
+  '/api/print',
+  printRateLimiter,
+  printRequestHandler(printRequestSchema, 'print', (request, auth) => {
+    const restaurantId = request.restaurantId || auth.restaurantId;
+    if (!restaurantId) {
+      return RESTAURANT_REQUIRED;
+    }
+    if (!canAccessRestaurant(auth, restaurantId)) {
+      return tenantDeniedResponse('POST /api/print', auth, restaurantId);
+    }
+    return printDispatcher.submit(request, restaurantId, auth.userId);
+  })
+);
+
+// Print a batch of labels as one job endpoint (protected, supports ?wait=true)
+app.post(
+  '/api/print/batch',
+  printRateLimiter,
+  printRequestHandler(printBatchRequestSchema, 'print', (request, auth) => {
+    const restaurantId = request.restaurantId || auth.restaurantId;
+    if (!restaurantId) {
+      return RESTAURANT_REQUIRED;
+    }
+    if (!canAccessRestaurant(auth, restaurantId)) {
+      return tenantDeniedResponse('POST /api/print/batch', auth, restaurantId);
+    }
+    return printDispatcher.submitBatch(request, restaurantId, auth.userId);
+  })
+);
+
+// Reprint a command, optionally with label overrides (protected, supports ?wait=true)
+app.post(
+  '/api/prints/:commandId/reprint',
+  printRateLimiter,
+  printRequestHandler(reprintRequestSchema, 'reprint', (request, auth) => {
+    const original = printQueueManager.getCommand(request.commandId);
+    if (original && !canAccessRestaurant(auth, original.restaurantId)) {
+      return tenantDeniedResponse('POST /api/prints/:commandId/reprint', auth, original.restaurantId);
+    }
+    return printDispatcher.reprint(request, auth.userId);
+  })
+);
+
+// Cancel a queued, pending or printing command endpoint (protected)
+app.delete('/api/prints/:commandId', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'cancel')) {
+    return;
+  }
+
+  const body = validate(cancelPrintSchema, { ...req.body, commandId: req.params.commandId });
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const command = printQueueManager.getCommand(body.data.commandId);
+  if (command && !canAccessRestaurant(auth, command.restaurantId)) {
+    return tenantForbidden(req, res, auth, command.restaurantId);
+  }
+
+  const response = printDispatcher.cancel(body.data.commandId, auth.userId, body.data.reason);
+  if (!response.success) {
+    return res.status(PRINT_ERROR_STATUS[response.code] || 400).json(response);
+  }
+  res.status(200).json(response);
+});
+
+// Get print command status endpoint (protected). Supports ?wait=true like POST.
+app.get('/api/print/:commandId', async (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'view-history')) {
+    return;
+  }
+
+  const existing = printQueueManager.getCommand(req.params.commandId);
+  if (!existing) {
+    return res.status(404).json({ error: 'Print command not found' });
+  }
+  if (!canAccessRestaurant(auth, existing.restaurantId)) {
+    return tenantForbidden(req, res, auth, existing.restaurantId);
+  }
+
+  const command = isWaitRequested(req)
+    ? await printDispatcher.waitForResult(req.params.commandId, printWaitTimeout(req))
+    : existing;
+
+  res.status(200).json(printCommandView(command));
+});
+
+// Get available label layouts endpoint (protected)
+app.get('/api/labels/layouts', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const list = Object.values(layouts).map(({ id, name, widthMm, heightMm }) => ({
+    id,
+    name,
+    widthMm,
+    heightMm,
+  }));
+
+  res.status(200).json({ layouts: list, defaultLayout: config.labels.defaultLayout });
+});
+
+// Render label preview endpoint (protected)
+app.post('/api/labels/preview', async (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'print')) {
+    return;
+  }
+
+  const body = validate(previewRequestSchema, {
+    ...req.body,
+    format: req.body?.format || req.query.format,
+  });
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const { labelData, layoutId, dpi, format } = body.data;
+  const restaurantId = body.data.restaurantId || auth.restaurantId;
+  if (!restaurantId) {
+    return res.status(400).json(RESTAURANT_REQUIRED);
+  }
+  if (!canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  const options: PreviewOptions = { format, layoutId, dpi };
+  const validationError = validatePreviewOptions(options);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  // Preview the label as it would print, with the expiry date from the shelf-life rules
+  const shelfLife = shelfLifeManager.apply(restaurantId, labelData);
+  if (shelfLife.success === false) {
+    return res.status(400).json(validationErrorResponse(shelfLife.errors));
+  }
+
+  try {
+    const preview = await renderPreview(shelfLife.labelData, options);
+    res.set('Content-Type', preview.contentType);
+    res.set('X-Label-Layout', preview.layoutId);
+    res.set('X-Label-Dpi', String(preview.dpi));
+    if (preview.overflow.length > 0) {
+      res.set('X-Label-Overflow', preview.overflow.join(','));
+    }
+    res.status(200).send(preview.data);
+  } catch (err) {
+    logger.error('Label preview failed', {
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+    res.status(500).json({ error: 'Failed to render label preview' });
+  }
+});
+
+// Get shelf-life rules of a restaurant endpoint (protected)
+app.get('/api/shelf-life-rules', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const restaurantId = req.query.restaurantId as string;
+  if (!restaurantId) {
+    return res.status(400).json({ error: 'restaurantId is required' });
+  }
+  if (!canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  res.status(200).json({ rules: shelfLifeManager.getRules(restaurantId) });
+});
+
+// Create shelf-life rule endpoint (protected)
+app.post('/api/shelf-life-rules', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-routing')) {
+    return;
+  }
+
+  const body = validate(shelfLifeRuleSchema, req.body);
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const { restaurantId, ...input } = body.data;
+  if (!canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  const rule = shelfLifeManager.createRule(restaurantId, input, auth.userId);
+  if (!rule) {
+    return res.status(409).json({
+      error: 'A rule for this product, category and storage method already exists',
+    });
+  }
+
+  res.status(201).json({ rule });
+});
+
+// Update shelf-life rule endpoint (protected)
+app.put('/api/shelf-life-rules/:ruleId', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-routing')) {
+    return;
+  }
+
+  const body = validate(shelfLifeRuleUpdateSchema, req.body);
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const existing = shelfLifeManager.getRule(req.params.ruleId);
+  if (existing && !canAccessRestaurant(auth, existing.restaurantId)) {
+    return tenantForbidden(req, res, auth, existing.restaurantId);
+  }
+
+  const rule = shelfLifeManager.updateRule(req.params.ruleId, body.data);
+  if (rule === undefined) {
+    return res.status(404).json({ error: 'Shelf-life rule not found' });
+  }
+  if (rule === null) {
+    return res.status(409).json({
+      error: 'A rule for this product, category and storage method already exists',
+    });
+  }
+
+  res.status(200).json({ rule });
+});
+
+// Delete shelf-life rule endpoint (protected)
+app.delete('/api/shelf-life-rules/:ruleId', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-routing')) {
+    return;
+  }
+
+  const rule = shelfLifeManager.getRule(req.params.ruleId);
+  if (rule && !canAccessRestaurant(auth, rule.restaurantId)) {
+    return tenantForbidden(req, res, auth, rule.restaurantId);
+  }
+
+  if (!shelfLifeManager.deleteRule(req.params.ruleId)) {
+    return res.status(404).json({ error: 'Shelf-life rule not found' });
+  }
+
+  res.status(200).json({ success: true });
+});
+
+// Get print stations of a restaurant with their online agents endpoint (protected)
+app.get('/api/stations', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const restaurantId = req.query.restaurantId as string;
+  if (!restaurantId) {
+    return res.status(400).json({ error: 'restaurantId is required' });
+  }
+  if (!canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  const stations: Record<string, string[]> = {};
+  for (const agent of agentManager.getAgentsByRestaurant(restaurantId)) {
+    const station = agent.station || '';
+    stations[station] = [...(stations[station] || []), agent.id];
+  }
+
+  res.status(200).json({
+    stations: Object.entries(stations).map(([name, agentIds]) => ({ name: name || null, agentIds })),
+  });
+});
+
+// Get station routing rules of a restaurant endpoint (protected)
+app.get('/api/routing-rules', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const restaurantId = req.query.restaurantId as string;
+  if (!restaurantId) {
+    return res.status(400).json({ error: 'restaurantId is required' });
+  }
+  if (!canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  res.status(200).json({ rules: stationRoutingManager.getRules(restaurantId) });
+});
+
+// Create station routing rule endpoint (protected)
+app.post('/api/routing-rules', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-routing')) {
+    return;
+  }
+
+  const body = validate(stationRoutingRuleSchema, req.body);
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const { restaurantId, ...input } = body.data;
+  if (!canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  const rule = stationRoutingManager.createRule(restaurantId, input, auth.userId);
+  if (!rule) {
+    return res.status(409).json({
+      error: 'A rule for this category, product and user already exists',
+    });
+  }
+
+  res.status(201).json({ rule });
+});
+
+// Update station routing rule endpoint (protected)
+app.put('/api/routing-rules/:ruleId', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-routing')) {
+    return;
+  }
+
+  const body = validate(stationRoutingRuleUpdateSchema, req.body);
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const existing = stationRoutingManager.getRule(req.params.ruleId);
+  if (existing && !canAccessRestaurant(auth, existing.restaurantId)) {
+    return tenantForbidden(req, res, auth, existing.restaurantId);
+  }
+
+  const rule = stationRoutingManager.updateRule(req.params.ruleId, body.data);
+  if (rule === undefined) {
+    return res.status(404).json({ error: 'Routing rule not found' });
+  }
+  if (rule === null) {
+    return res.status(409).json({
+      error: 'A rule for this category, product and user already exists',
+    });
+  }
+
+  res.status(200).json({ rule });
+});
+
+// Delete station routing rule endpoint (protected)
+app.delete('/api/routing-rules/:ruleId', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-routing')) {
+    return;
+  }
+
+  const rule = stationRoutingManager.getRule(req.params.ruleId);
+  if (rule && !canAccessRestaurant(auth, rule.restaurantId)) {
+    return tenantForbidden(req, res, auth, rule.restaurantId);
+  }
+
+  if (!stationRoutingManager.deleteRule(req.params.ruleId)) {
+    return res.status(404).json({ error: 'Routing rule not found' });
+  }
+
+  res.status(200).json({ success: true });
+});
+
+// Get restaurant print settings endpoint (protected)
+app.get('/api/restaurants/:restaurantId/settings', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { restaurantId } = req.params;
+  if (!canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  res.status(200).json({
+    settings: restaurantSettingsManager.getSettings(restaurantId) || { id: restaurantId },
+    agentSelectionStrategy: restaurantSettingsManager.getSelectionStrategy(restaurantId),
+    availableStrategies: agentSelector.getStrategyNames(),
+  });
+});
+
+// Update restaurant print settings endpoint (protected)
+app.put('/api/restaurants/:restaurantId/settings', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-routing')) {
+    return;
+  }
+
+  if (!canAccessRestaurant(auth, req.params.restaurantId)) {
+    return tenantForbidden(req, res, auth, req.params.restaurantId);
+  }
+
+  const body = validate(restaurantSettingsSchema, req.body);
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const settings = restaurantSettingsManager.updateSettings(req.params.restaurantId, body.data, auth.userId);
+  res.status(200).json({ settings });
+});
+
+const PRINTER_ALERT_STATUSES: PrinterAlert['status'][] = ['active', 'acknowledged', 'resolved'];
+
+// Get printer alert history of a restaurant endpoint (protected)
+app.get('/api/printer-alerts', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const restaurantId = req.query.restaurantId as string;
+  if (!restaurantId) {
+    return res.status(400).json({ error: 'restaurantId is required' });
+  }
+  if (!canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  const status = req.query.status as PrinterAlert['status'];
+  if (status && !PRINTER_ALERT_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of: ${PRINTER_ALERT_STATUSES.join(', ')}` });
+  }
+
+  const limit = parseInt(req.query.limit as string) || 100;
+  res.status(200).json({ alerts: printerAlertManager.getAlerts(restaurantId, status, limit) });
+});
+
+// Acknowledge printer alert endpoint (protected)
+app.post('/api/printer-alerts/:alertId/acknowledge', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-routing')) {
+    return;
+  }
+
+  const existing = printerAlertManager.getAlert(req.params.alertId);
+  if (existing && !canAccessRestaurant(auth, existing.restaurantId)) {
+    return tenantForbidden(req, res, auth, existing.restaurantId);
+  }
+
+  const alert = printerAlertManager.acknowledge(req.params.alertId, auth.userId);
+  if (alert === undefined) {
+    return res.status(404).json({ error: 'Printer alert not found' });
+  }
+  if (alert === null) {
+    return res.status(409).json({ error: 'Printer alert is already resolved' });
+  }
+
+  res.status(200).json({ alert });
+});
+
+// Resolve printer alert endpoint (protected)
+app.post('/api/printer-alerts/:alertId/resolve', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-routing')) {
+    return;
+  }
+
+  const existing = printerAlertManager.getAlert(req.params.alertId);
+  if (existing && !canAccessRestaurant(auth, existing.restaurantId)) {
+    return tenantForbidden(req, res, auth, existing.restaurantId);
+  }
+
+  const alert = printerAlertManager.resolve(req.params.alertId, auth.userId);
+  if (alert === undefined) {
+    return res.status(404).json({ error: 'Printer alert not found' });
+  }
+  if (alert === null) {
+    return res.status(409).json({ error: 'Printer alert is already resolved' });
+  }
+
+  res.status(200).json({ alert });
+});
+
+/**
+ * Webhook subscription as returned by the API: the signing secret is only
+ * shown once, when the subscription is created
+ */
+const webhookView = ({ secret, ...subscription }: WebhookSubscription) => subscription;
+
+/**
+ * Why a webhook URL may not be subscribed to, as a field error
+ */
+const webhookUrlError = async (url: string): Promise<FieldError | undefined> => {
+  try {
+    const reason = await checkWebhookUrl(url);
+    return reason ? { field: 'url', message: reason, code: 'webhook_url_forbidden' } : undefined;
+  } catch {
+    return { field: 'url', message: 'Webhook host cannot be resolved', code: 'webhook_url_unresolved' };
+  }
+};
+
+// Get webhook subscriptions of a restaurant endpoint (protected)
+app.get('/api/webhooks', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-webhooks')) {
+    return;
+  }
+
+  const restaurantId = req.query.restaurantId as string;
+  if (!restaurantId) {
+    return res.status(400).json({ error: 'restaurantId is required' });
+  }
+  if (!canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  res.status(200).json({ webhooks: webhookManager.getSubscriptions(restaurantId).map(webhookView) });
+});
+
+// Create webhook subscription endpoint (protected)
+app.post('/api/webhooks', async (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-webhooks')) {
+    return;
+  }
+
+  const body = validate(webhookSubscriptionSchema, req.body);
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const { restaurantId, ...input } = body.data;
+  if (!canAccessRestaurant(auth, restaurantId)) {
+    return tenantForbidden(req, res, auth, restaurantId);
+  }
+
+  const urlError = await webhookUrlError(input.url);
+  if (urlError) {
+    return res.status(400).json(validationErrorResponse([urlError]));
+  }
+
+  const subscription = webhookManager.createSubscription(restaurantId, input, auth.userId);
+  res.status(201).json({ webhook: { ...webhookView(subscription), secret: subscription.secret } });
+});
+
+// Update webhook subscription endpoint (protected)
+app.put('/api/webhooks/:webhookId', async (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-webhooks')) {
+    return;
+  }
+
+  const body = validate(webhookSubscriptionUpdateSchema, req.body);
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const existing = webhookManager.getSubscription(req.params.webhookId);
+  if (existing && !canAccessRestaurant(auth, existing.restaurantId)) {
+    return tenantForbidden(req, res, auth, existing.restaurantId);
+  }
+
+  const urlError = body.data.url ? await webhookUrlError(body.data.url) : undefined;
+  if (urlError) {
+    return res.status(400).json(validationErrorResponse([urlError]));
+  }
+
+  const subscription = webhookManager.updateSubscription(req.params.webhookId, body.data);
+  if (!subscription) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+
+  res.status(200).json({ webhook: webhookView(subscription) });
+});
+
+// Delete webhook subscription endpoint (protected)
+app.delete('/api/webhooks/:webhookId', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-webhooks')) {
+    return;
+  }
+
+  const subscription = webhookManager.getSubscription(req.params.webhookId);
+  if (subscription && !canAccessRestaurant(auth, subscription.restaurantId)) {
+    return tenantForbidden(req, res, auth, subscription.restaurantId);
+  }
+
+  if (!webhookManager.deleteSubscription(req.params.webhookId)) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+
+  res.status(200).json({ success: true });
+});
+
+// Get webhook delivery log endpoint (protected)
+app.get('/api/webhooks/:webhookId/deliveries', (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-webhooks')) {
+    return;
+  }
+
+  const subscription = webhookManager.getSubscription(req.params.webhookId);
+  if (!subscription) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+  if (!canAccessRestaurant(auth, subscription.restaurantId)) {
+    return tenantForbidden(req, res, auth, subscription.restaurantId);
+  }
+
+  const limit = parseInt(req.query.limit as string) || 50;
+  res.status(200).json({ deliveries: webhookManager.getDeliveries(req.params.webhookId, limit) });
+});
+
+/**
+ * Agent token as returned by the API: prefix and metadata, never the
+ * hash or salt (column names as in the agent_tokens table)
+ */
+const agentTokenView = (record: AgentTokenRecord) => ({
+  id: record.id,
+  token_prefix: record.tokenPrefix,
+  restaurant_code: record.restaurantCode,
+  is_active: record.isActive,
+  created_at: record.createdAt,
+  last_used_at: record.lastUsedAt || null,
+  expires_at: record.expiresAt || null,
+  replaced_by: record.replacedBy || null,
+});
+
 // 🔑 API endpoint для генерации токенов агентов (требуется JWT аутентификация)
 app.post('/api/generate-agent-token', async (req, res) => {
   // Проверяем JWT токен пользователя
@@ -166,73 +1134,50 @@ app.post('/api/generate-agent-token', async (req, res) => {
       message: 'Требуется JWT токен для генерации токена агента' 
     });
   }
+  if (!guardHttp(req, res, auth, 'manage-agent-tokens')) {
+    return;
+  }
 
-  const { restaurantCode } = req.body;
-  
-  // Валидация кода ресторана
-  if (!restaurantCode || typeof restaurantCode !== 'string') {
-    return res.status(400).json({ 
-      error: 'Не указан код ресторана',
-      message: 'Требуется поле restaurantCode' 
-    });
+  // Валидация кода ресторана (8 символов A-Z0-9)
+  const body = validate(generateAgentTokenSchema, req.body);
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
   }
-  
-  // Проверяем формат кода (должен быть 8 символов буквы/цифры)
-  if (!/^[A-Z0-9]{8}$/.test(restaurantCode)) {
-    return res.status(400).json({ 
-      error: 'Неверный формат кода',
-      message: 'Код ресторана должен содержать 8 символов (буквы A-Z и цифры 0-9)' 
-    });
+
+  const { restaurantCode, expiresInDays } = body.data;
+  if (!canAccessRestaurant(auth, restaurantCode)) {
+    return tenantForbidden(req, res, auth, restaurantCode);
   }
   
-  // Генерируем случайный 32-символьный ключ
-  const randomKey = randomBytes(16).toString('hex'); // 32 hex символа
-  
-  // Формируем токен: agent_<restaurantCode>_<randomKey>
-  const agentToken = `agent_${restaurantCode}_${randomKey}`;
-  
   try {
-    // 💾 Сохраняем токен в Supabase
-    const { data, error } = await supabaseAdmin
-      .from('agent_tokens')
-      .insert({
-        token: agentToken,
-        restaurant_code: restaurantCode,
-        created_by: auth.userId,
-        is_active: true,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      logger.error('❌ Ошибка сохранения токена в Supabase', {
-        error: error.message,
-        restaurantCode,
-      });
-      return res.status(500).json({
-        error: 'Ошибка сохранения токена',
-        message: error.message
-      });
-    }
+    // 💾 Формируем токен agent_<restaurantCode>_<32 hex> и сохраняем только префикс и хэш
+    const { token, record } = await agentTokenManager.issue(restaurantCode, auth.userId, expiresInDays);
 
     logger.info('🔑 Токен агента сгенерирован и сохранён', {
       restaurantCode,
-      tokenPrefix: `agent_${restaurantCode}_...`,
-      tokenId: data.id,
+      tokenPrefix: record.tokenPrefix,
+      tokenId: record.id,
       userId: auth.userId,
+      expiresAt: record.expiresAt,
       generatedAt: new Date().toISOString()
     });
     
+    // Полный токен показывается только здесь, один раз
     res.json({
       success: true,
-      agentToken,
+      agentToken: token,
+      tokenId: record.id,
+      tokenPrefix: record.tokenPrefix,
       restaurantCode,
-      generatedAt: data.created_at,
-      expiresAt: null, // Токены не истекают (можно добавить позже)
+      generatedAt: record.createdAt,
+      expiresAt: record.expiresAt || null,
       message: 'Токен успешно сгенерирован и сохранён'
     });
   } catch (err) {
-    logger.error('❌ Неожиданная ошибка при генерации токена', { error: err });
+    logger.error('❌ Ошибка сохранения токена', {
+      error: err instanceof Error ? err.message : 'Unknown error',
+      restaurantCode,
+    });
     res.status(500).json({
       error: 'Внутренняя ошибка сервера',
       message: 'Не удалось сгенерировать токен'
@@ -249,6 +1194,9 @@ app.get('/api/agent-tokens/:restaurantCode', async (req, res) => {
       message: 'Требуется JWT токен' 
     });
   }
+  if (!guardHttp(req, res, auth, 'manage-agent-tokens')) {
+    return;
+  }
 
   const { restaurantCode } = req.params;
 
@@ -259,23 +1207,19 @@ app.get('/api/agent-tokens/:restaurantCode', async (req, res) => {
     });
   }
 
-  try {
-    const { data, error } = await supabaseAdmin
-      .from('agent_tokens')
-      .select('id, token, restaurant_code, is_active, created_at, last_used_at')
-      .eq('restaurant_code', restaurantCode)
-      .eq('is_active', true)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      logger.error('❌ Ошибка загрузки токенов', { error: error.message, restaurantCode });
-      return res.status(500).json({ error: 'Ошибка загрузки токенов' });
-    }
+  if (!canAccessRestaurant(auth, restaurantCode)) {
+    return tenantForbidden(req, res, auth, restaurantCode);
+  }
 
-    res.json({ success: true, tokens: data || [] });
+  try {
+    const tokens = await agentTokenManager.list(restaurantCode);
+    res.json({ success: true, tokens: tokens.map(agentTokenView) });
   } catch (err) {
-    logger.error('❌ Ошибка получения токенов', { error: err });
-    res.status(500).json({ error: 'Внутренняя ошибка сервера' });
+    logger.error('❌ Ошибка загрузки токенов', {
+      error: err instanceof Error ? err.message : 'Unknown error',
+      restaurantCode,
+    });
+    res.status(500).json({ error: 'Ошибка загрузки токенов' });
   }
 });
 
@@ -285,24 +1229,168 @@ app.delete('/api/agent-tokens/:tokenId', async (req, res) => {
   if (!auth) {
     return res.status(401).json({ error: 'Unauthorized' });
   }
+  if (!guardHttp(req, res, auth, 'manage-agent-tokens')) {
+    return;
+  }
 
   const { tokenId } = req.params;
 
   try {
-    const { error } = await supabaseAdmin
-      .from('agent_tokens')
-      .update({ is_active: false })
-      .eq('id', tokenId);
-
-    if (error) {
-      logger.error('❌ Ошибка деактивации токена', { error: error.message, tokenId });
-      return res.status(500).json({ error: 'Ошибка деактивации токена' });
+    const token = await agentTokenManager.get(tokenId);
+    if (!token) {
+      return res.status(404).json({ error: 'Токен не найден' });
+    }
+    if (!canAccessRestaurant(auth, token.restaurantCode)) {
+      return tenantForbidden(req, res, auth, token.restaurantCode);
     }
 
+    await agentTokenManager.revoke(tokenId);
+
     logger.info('🔒 Токен деактивирован', { tokenId, userId: auth.userId });
     res.json({ success: true, message: 'Токен деактивирован' });
   } catch (err) {
-    logger.error('❌ Ошибка деактивации токена', { error: err });
+    logger.error('❌ Ошибка деактивации токена', {
+      error: err instanceof Error ? err.message : 'Unknown error',
+      tokenId,
+    });
+    res.status(500).json({ error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+// 🔄 API endpoint для ротации токена (требуется JWT): новый токен, старый действует ещё graceHours
+app.post('/api/agent-tokens/:tokenId/rotate', async (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-agent-tokens')) {
+    return;
+  }
+
+  const body = validate(rotateAgentTokenSchema, req.body || {});
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const { tokenId } = req.params;
+  const graceHours = body.data.graceHours ?? config.agentTokens.rotationGraceHours;
+
+  try {
+    const token = await agentTokenManager.get(tokenId);
+    if (token && !canAccessRestaurant(auth, token.restaurantCode)) {
+      return tenantForbidden(req, res, auth, token.restaurantCode);
+    }
+
+    const rotated = await agentTokenManager.rotate(tokenId, auth.userId, graceHours, body.data.expiresInDays);
+    if (rotated === undefined) {
+      return res.status(404).json({ error: 'Токен не найден' });
+    }
+    if (rotated === null) {
+      // Re-read: a concurrent rotation may have replaced the token after the check above
+      const current = await agentTokenManager.get(tokenId);
+      return res.status(409).json({ error: 'Токен уже заменён', replacedBy: current?.replacedBy || null });
+    }
+
+    const { issued, previous } = rotated;
+    logger.info('🔄 Токен агента заменён', {
+      restaurantCode: previous.restaurantCode,
+      previousTokenId: tokenId,
+      tokenId: issued.record.id,
+      tokenPrefix: issued.record.tokenPrefix,
+      previousExpiresAt: previous.expiresAt,
+      userId: auth.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      agentToken: issued.token,
+      tokenId: issued.record.id,
+      tokenPrefix: issued.record.tokenPrefix,
+      restaurantCode: previous.restaurantCode,
+      generatedAt: issued.record.createdAt,
+      expiresAt: issued.record.expiresAt || null,
+      previousToken: { id: tokenId, expiresAt: previous.expiresAt },
+    });
+  } catch (err) {
+    logger.error('❌ Ошибка ротации токена', {
+      error: err instanceof Error ? err.message : 'Unknown error',
+      tokenId,
+    });
+    res.status(500).json({ error: 'Внутренняя ошибка сервера' });
+  }
+});
+
+/**
+ * Pending pairing request as shown to the manager approving it
+ */
+const pairingView = (request: PairingRequest) => ({
+  code: request.id,
+  deviceName: request.deviceName || null,
+  station: request.station || null,
+  ip: request.ip || null,
+  createdAt: request.createdAt,
+  expiresAt: request.expiresAt,
+});
+
+// 🔗 API endpoint для просмотра ожидающего сопряжения агента (требуется JWT)
+app.get('/api/pairing/:code', pairingApprovalRateLimiter, (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-agent-tokens')) {
+    return;
+  }
+
+  const request = pairingManager.get(req.params.code);
+  if (!request) {
+    return res.status(404).json({ error: 'Код сопряжения не найден или истёк' });
+  }
+
+  res.status(200).json({ pairing: pairingView(request) });
+});
+
+// 🔗 API endpoint для подтверждения сопряжения: токен выпускается и отправляется агенту (требуется JWT)
+app.post('/api/pairing/:code/approve', pairingApprovalRateLimiter, async (req, res) => {
+  const auth = verifyHttpToken(req.headers.authorization);
+  if (!auth) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!guardHttp(req, res, auth, 'manage-agent-tokens')) {
+    return;
+  }
+
+  const body = validate(approvePairingSchema, { ...req.body, code: req.params.code });
+  if (body.success === false) {
+    return res.status(400).json(validationErrorResponse(body.errors));
+  }
+
+  const { code, restaurantCode, expiresInDays } = body.data;
+  if (!canAccessRestaurant(auth, restaurantCode)) {
+    return tenantForbidden(req, res, auth, restaurantCode);
+  }
+
+  try {
+    const approved = await pairingManager.approve(code, restaurantCode, auth.userId, expiresInDays);
+    if (!approved) {
+      return res.status(404).json({ error: 'Код сопряжения не найден или истёк' });
+    }
+
+    // Сам токен получает только агент
+    const { request, issued } = approved;
+    res.status(201).json({
+      success: true,
+      pairing: pairingView(request),
+      tokenId: issued.record.id,
+      tokenPrefix: issued.record.tokenPrefix,
+      restaurantCode,
+      expiresAt: issued.record.expiresAt || null,
+    });
+  } catch (err) {
+    logger.error('❌ Ошибка подтверждения сопряжения', {
+      error: err instanceof Error ? err.message : 'Unknown error',
+      restaurantCode,
+    });
     res.status(500).json({ error: 'Внутренняя ошибка сервера' });
   }
 });
@@ -363,30 +1451,50 @@ io.use((socket, next) => {
 initializeSocketHandlers(io);
 
 // Start server
-httpServer.listen(config.port, config.host, () => {
-  logger.info(`🚀 CloudChef Print Server started`, {
-    port: config.port,
-    host: config.host,
-    environment: config.nodeEnv,
-    cors: config.cors.origins,
+const start = async () => {
+  if (config.cluster.enabled) {
+    await clusterManager.start(io);
+  }
+
+  // Restore print history and records (shelf-life rules, ...) from the store
+  await printQueueManager.initialize();
+  await openRecordStores();
+  // In cluster mode commands of other (and dead) nodes are left to them and the leader
+  printDispatcher.recoverInterrupted(
+    (command) => !clusterManager.isEnabled() || command.nodeId === clusterManager.nodeId
+  );
+  webhookManager.resumePending();
+
+  httpServer.listen(config.port, config.host, () => {
+    logger.info(`🚀 CloudChef Print Server started`, {
+      port: config.port,
+      host: config.host,
+      environment: config.nodeEnv,
+      cors: config.cors.origins,
+      nodeId: clusterManager.nodeId,
+    });
   });
+};
+
+start().catch((error) => {
+  logger.error('Failed to start server', { error: error.message, stack: error.stack });
+  process.exit(1);
 });
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM signal received: closing HTTP server');
-  httpServer.close(() => {
+const shutdown = (signal: string) => {
+  logger.info(`${signal} signal received: closing HTTP server`);
+  httpServer.close(async () => {
     logger.info('HTTP server closed');
+    await clusterManager.stop().catch(() => undefined);
+    printQueueManager.close();
+    webhookManager.close();
+    closeRecordStores();
     process.exit(0);
   });
-});
+};
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT signal received: closing HTTP server');
-  httpServer.close(() => {
-    logger.info('HTTP server closed');
-    process.exit(0);
-  });
-});
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 export { app, httpServer, io };
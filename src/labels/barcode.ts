@@ -0,0 +1,88 @@
+// Code 128 symbol patterns: widths of alternating bars and spaces (bar first)
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const START_C = 105;
+const CODE_B = 100;
+const CODE_C = 99;
+const STOP = 106;
+
+/**
+ * Length of the digit run starting at index
+ */
+const digitRun = (data: string, index: number): number => {
+  let end = index;
+  while (end < data.length && data[end] >= '0' && data[end] <= '9') {
+    end++;
+  }
+  return end - index;
+};
+
+/**
+ * Encode data as Code 128 with automatic B/C subset switching (digit runs
+ * are packed in pairs), like the printers' own auto mode. Returns module
+ * widths of alternating bars and spaces, starting with a bar.
+ * Non-printable characters become '?'.
+ */
+export const encodeCode128 = (data: string): number[] => {
+  const symbols: number[] = [];
+  let subset: 'B' | 'C' | null = null;
+  let i = 0;
+
+  while (i < data.length) {
+    const run = digitRun(data, i);
+    // Switching subsets costs a symbol - only worth it for longer runs
+    const atEdge = i === 0 || i + run === data.length;
+    const useC = run >= (atEdge ? 4 : 6);
+
+    if (useC) {
+      // Odd run: the first digit goes in subset B
+      if (run % 2 === 1) {
+        if (subset !== 'B') {
+          symbols.push(subset === null ? START_B : CODE_B);
+          subset = 'B';
+        }
+        symbols.push(data.charCodeAt(i) - 32);
+        i++;
+      }
+      if (subset !== 'C') {
+        symbols.push(subset === null ? START_C : CODE_C);
+        subset = 'C';
+      }
+      const end = i + run - (run % 2);
+      for (; i < end; i += 2) {
+        symbols.push(Number(data.slice(i, i + 2)));
+      }
+      continue;
+    }
+
+    if (subset !== 'B') {
+      symbols.push(subset === null ? START_B : CODE_B);
+      subset = 'B';
+    }
+    const code = data.charCodeAt(i);
+    symbols.push(code >= 32 && code <= 126 ? code - 32 : '?'.charCodeAt(0) - 32);
+    i++;
+  }
+
+  if (subset === null) {
+    symbols.push(START_B);
+  }
+
+  const checksum = symbols.reduce((sum, value, index) => sum + value * (index || 1), 0) % 103;
+  symbols.push(checksum, STOP);
+
+  return symbols.flatMap((symbol) => Array.from(PATTERNS[symbol], Number));
+};
@@ -0,0 +1,37 @@
+// Windows-1251 code points outside the contiguous А..я block
+const EXTRA: Record<string, number> = {
+  'Ё': 0xa8,
+  'ё': 0xb8,
+  '№': 0xb9,
+  '°': 0xb0,
+  '«': 0xab,
+  '»': 0xbb,
+  '…': 0x85,
+  '–': 0x96,
+  '—': 0x97,
+  '±': 0xb1,
+  '×': 0x78, // no multiplication sign in 1251 - use 'x'
+};
+
+/**
+ * Encode text as Windows-1251 (Cyrillic code page of TSC/Xprinter/EPL printers).
+ * Characters that have no mapping are replaced with '?'.
+ */
+export const encodeCp1251 = (text: string): Buffer => {
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code >= 0x0410 && code <= 0x044f) {
+      bytes.push(code - 0x0410 + 0xc0);
+    } else if (EXTRA[char] !== undefined) {
+      bytes.push(EXTRA[char]);
+    } else {
+      bytes.push(0x3f);
+    }
+  }
+
+  return Buffer.from(bytes);
+};
@@ -0,0 +1,73 @@
+import { LabelDocument } from './layout';
+
+// Built-in EPL2 fonts usable with code page 1251: [font, height in dots at 203 dpi]
+const FONTS: Array<[number, number]> = [
+  [1, 12],
+  [2, 16],
+  [3, 20],
+  [4, 24],
+];
+
+/**
+ * Pick the built-in font and vertical multiplier closest to a text height
+ */
+const pickFont = (height: number): { font: number; multiplier: number } => {
+  let best = { font: 1, multiplier: 1, diff: Infinity };
+  for (const [font, fontHeight] of FONTS) {
+    for (let multiplier = 1; multiplier <= 4; multiplier++) {
+      const diff = Math.abs(fontHeight * multiplier - height);
+      if (diff < best.diff) {
+        best = { font, multiplier, diff };
+      }
+    }
+  }
+  return { font: best.font, multiplier: best.multiplier };
+};
+
+/**
+ * Quote an EPL2 string - backslash and double quote are escaped with a backslash
+ */
+const quote = (text: string): string => `"${text.replace(/[\\"]/g, (char) => `\\${char}`)}"`;
+
+/**
+ * Compile a laid out label into EPL2 (Eltron / older Zebra LP/TLP 2844).
+ * Uses the Windows-1251 code page (I8,C), so the result must be sent
+ * encoded as Windows-1251.
+ */
+export const compileEpl = (doc: LabelDocument, copies: number = 1): string => {
+  const out: string[] = [
+    '',
+    'N',
+    'I8,C,001',
+    `q${doc.widthDots}`,
+    `Q${doc.heightDots},24`,
+  ];
+
+  for (const element of doc.elements) {
+    switch (element.kind) {
+      case 'text': {
+        const { font, multiplier } = pickFont(element.fontHeight);
+        element.lines.forEach((line, index) => {
+          const y = element.y + index * element.lineHeight;
+          out.push(`A${element.x},${y},0,${font},${multiplier},${multiplier},N,${quote(line)}`);
+          if (element.bold) {
+            out.push(`A${element.x + 1},${y},0,${font},${multiplier},${multiplier},N,${quote(line)}`);
+          }
+        });
+        break;
+      }
+      case 'barcode':
+        out.push(
+          `B${element.x},${element.y},0,1,${element.moduleWidth},${element.moduleWidth * 2},` +
+          `${element.height},N,${quote(element.data)}`
+        );
+        break;
+      case 'line':
+        out.push(`LO${element.x},${element.y},${element.width},${element.height}`);
+        break;
+    }
+  }
+
+  out.push(`P1,${Math.max(1, Math.floor(copies))}`);
+  return out.join('\n') + '\n';
+};
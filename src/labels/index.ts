@@ -0,0 +1,72 @@
+import { LabelData, PrintPayload, PrinterLanguage } from '../types';
+import { config } from '../config';
+import { getLayout, layoutLabel } from './layout';
+import { compileZpl } from './zpl';
+import { compileTspl } from './tspl';
+import { compileEpl } from './epl';
+import { encodeCp1251 } from './cp1251';
+
+export * from './layout';
+export { compileZpl } from './zpl';
+export { compileTspl } from './tspl';
+export { compileEpl } from './epl';
+export { resolvePrinterLanguage, isKnownPrinterModel, findIncompatibilities } from './printers';
+export { compileSvg } from './svg';
+export { encodeCode128 } from './barcode';
+export { renderPreview, validatePreviewOptions, PreviewFormat, PreviewOptions, LabelPreview } from './preview';
+
+export interface RenderOptions {
+  layoutId?: string;
+  dpi?: number;
+  language?: PrinterLanguage;
+  copies?: number;
+}
+
+/**
+ * Compile label data into a payload the agent can send straight to the printer
+ */
+export const renderLabel = (labelData: LabelData, options: RenderOptions = {}): PrintPayload => {
+  const layoutId = options.layoutId || config.labels.defaultLayout;
+  const layout = getLayout(layoutId);
+  if (!layout) {
+    throw new Error(`Unknown label layout: ${layoutId}`);
+  }
+
+  const dpi = options.dpi || config.labels.defaultDpi;
+  const language = options.language || 'zpl';
+  const doc = layoutLabel(labelData, layout, dpi);
+
+  const base = {
+    language,
+    layoutId,
+    dpi,
+    widthMm: layout.widthMm,
+    heightMm: layout.heightMm,
+  };
+
+  switch (language) {
+    case 'zpl':
+      return {
+        ...base,
+        encoding: 'utf8',
+        charset: 'utf-8',
+        data: compileZpl(doc, options.copies),
+      };
+    case 'tspl':
+      return {
+        ...base,
+        encoding: 'base64',
+        charset: 'windows-1251',
+        data: encodeCp1251(compileTspl(doc, layout, options.copies)).toString('base64'),
+      };
+    case 'epl':
+      return {
+        ...base,
+        encoding: 'base64',
+        charset: 'windows-1251',
+        data: encodeCp1251(compileEpl(doc, options.copies)).toString('base64'),
+      };
+    default:
+      throw new Error(`Unsupported printer language: ${language}`);
+  }
+};
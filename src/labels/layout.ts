@@ -0,0 +1,308 @@
+import { LabelData } from '../types';
+
+/**
+ * Field of LabelData a layout block prints
+ */
+export type LabelField =
+  | 'productName'
+  | 'category'
+  | 'preparationDate'
+  | 'expiryDate'
+  | 'storageMethod'
+  | 'chefName'
+  | 'restaurantName'
+  | 'allergens'
+  | 'barcode';
+
+/**
+ * One block of a layout definition. Blocks are stacked top to bottom;
+ * blocks whose field is empty are skipped. Sizes are in millimetres.
+ */
+export type LayoutBlock =
+  | {
+      type: 'text';
+      field: LabelField;
+      caption?: string;     // Printed before the value, e.g. 'Годен до: '
+      fontSize: number;     // Character height
+      maxLines?: number;    // Wrap up to this many lines (default 1)
+      bold?: boolean;
+      marginTop?: number;
+    }
+  | {
+      type: 'barcode';
+      field: LabelField;
+      height: number;
+      marginTop?: number;
+    }
+  | {
+      type: 'line';
+      thickness: number;
+      marginTop?: number;
+    };
+
+/**
+ * Label layout definition
+ */
+export interface LabelLayout {
+  id: string;
+  name: string;
+  widthMm: number;
+  heightMm: number;
+  marginMm: number;
+  blocks: LayoutBlock[];
+}
+
+/**
+ * Positioned element of a laid out label. Coordinates are in printer dots.
+ * Text is already wrapped, so every output language prints the same lines.
+ */
+export type LabelElement =
+  | {
+      kind: 'text';
+      x: number;
+      y: number;
+      width: number;
+      fontHeight: number;
+      lineHeight: number;
+      lines: string[];
+      bold: boolean;
+    }
+  | {
+      kind: 'barcode';
+      x: number;
+      y: number;
+      height: number;
+      moduleWidth: number;
+      data: string;
+    }
+  | {
+      kind: 'line';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+    };
+
+/**
+ * Label laid out for a specific printer resolution
+ */
+export interface LabelDocument {
+  layoutId: string;
+  dpi: number;
+  widthDots: number;
+  heightDots: number;
+  elements: LabelElement[];
+  // Blocks that did not fit on the label
+  overflow: LabelField[];
+}
+
+// Average glyph width relative to its height for the printers' built-in
+// proportional fonts; slightly pessimistic so wrapped text never clips
+const CHAR_WIDTH_RATIO = 0.6;
+const LINE_SPACING = 1.2;
+
+const STORAGE_METHOD_LABELS: Record<string, string> = {
+  'охлаждение': 'Охлаждение (+2…+6 °C)',
+  'заморозка': 'Заморозка (-18 °C)',
+};
+
+export const layouts: Record<string, LabelLayout> = {
+  'standard-58x60': {
+    id: 'standard-58x60',
+    name: 'Стандартная 58×60 мм',
+    widthMm: 58,
+    heightMm: 60,
+    marginMm: 2,
+    blocks: [
+      { type: 'text', field: 'productName', fontSize: 4, maxLines: 2, bold: true },
+      { type: 'text', field: 'category', fontSize: 2.5, marginTop: 0.5 },
+      { type: 'line', thickness: 0.3, marginTop: 1 },
+      { type: 'text', field: 'preparationDate', caption: 'Изготовлено: ', fontSize: 2.5, marginTop: 1 },
+      { type: 'text', field: 'expiryDate', caption: 'Годен до: ', fontSize: 3, bold: true, marginTop: 0.5 },
+      { type: 'text', field: 'storageMethod', caption: 'Хранение: ', fontSize: 2.5, marginTop: 0.5 },
+      { type: 'text', field: 'chefName', caption: 'Повар: ', fontSize: 2.5, marginTop: 0.5 },
+      { type: 'text', field: 'allergens', caption: 'Аллергены: ', fontSize: 2.5, maxLines: 2, marginTop: 0.5 },
+      { type: 'barcode', field: 'barcode', height: 8, marginTop: 1.5 },
+    ],
+  },
+  'compact-58x40': {
+    id: 'compact-58x40',
+    name: 'Компактная 58×40 мм',
+    widthMm: 58,
+    heightMm: 40,
+    marginMm: 1.5,
+    blocks: [
+      { type: 'text', field: 'productName', fontSize: 3.5, maxLines: 1, bold: true },
+      { type: 'text', field: 'preparationDate', caption: 'Изг.: ', fontSize: 2.5, marginTop: 0.8 },
+      { type: 'text', field: 'expiryDate', caption: 'Годен до: ', fontSize: 3, bold: true, marginTop: 0.5 },
+      { type: 'text', field: 'storageMethod', fontSize: 2.5, marginTop: 0.5 },
+      { type: 'text', field: 'allergens', caption: 'Аллерг.: ', fontSize: 2.2, marginTop: 0.5 },
+      { type: 'barcode', field: 'barcode', height: 6, marginTop: 1 },
+    ],
+  },
+};
+
+/**
+ * Get a layout definition by ID
+ */
+export const getLayout = (layoutId: string): LabelLayout | undefined => layouts[layoutId];
+
+/**
+ * Format an ISO date (or date-time) for printing, keep anything else as is
+ */
+export const formatLabelDate = (value: string): string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/.exec(value);
+  if (!match) {
+    return value;
+  }
+  const [, year, month, day, hours, minutes] = match;
+  const date = `${day}.${month}.${year}`;
+  return hours ? `${date} ${hours}:${minutes}` : date;
+};
+
+/**
+ * Printable value of a label field, '' if missing
+ */
+const fieldValue = (labelData: LabelData, field: LabelField): string => {
+  const value = labelData[field];
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  switch (field) {
+    case 'preparationDate':
+    case 'expiryDate':
+      return formatLabelDate(String(value));
+    case 'storageMethod':
+      return STORAGE_METHOD_LABELS[String(value)] || String(value);
+    case 'allergens':
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    default:
+      return String(value).trim();
+  }
+};
+
+/**
+ * Wrap text into at most maxLines lines of maxChars characters.
+ * The last line is ellipsized when the text does not fit.
+ */
+export const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      lines.push(current);
+    }
+    current = word;
+    // Hard-break words longer than a line
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    const last = kept[maxLines - 1];
+    kept[maxLines - 1] = last.length >= maxChars ? `${last.slice(0, maxChars - 1)}…` : `${last}…`;
+    return kept;
+  }
+  return lines;
+};
+
+/**
+ * Lay out label data on a label at the given resolution
+ */
+export const layoutLabel = (labelData: LabelData, layout: LabelLayout, dpi: number): LabelDocument => {
+  const dotsPerMm = dpi / 25.4;
+  const toDots = (mm: number) => Math.round(mm * dotsPerMm);
+
+  const widthDots = toDots(layout.widthMm);
+  const heightDots = toDots(layout.heightMm);
+  const margin = toDots(layout.marginMm);
+  const contentWidth = widthDots - margin * 2;
+  const bottom = heightDots - margin;
+
+  const elements: LabelElement[] = [];
+  const overflow: LabelField[] = [];
+  let y = margin;
+
+  for (const block of layout.blocks) {
+    const top = y + toDots(block.marginTop || 0);
+
+    if (block.type === 'line') {
+      const height = Math.max(toDots(block.thickness), 1);
+      if (top + height <= bottom) {
+        elements.push({ kind: 'line', x: margin, y: top, width: contentWidth, height });
+        y = top + height;
+      }
+      continue;
+    }
+
+    const value = fieldValue(labelData, block.field);
+    if (!value) {
+      continue;
+    }
+
+    if (block.type === 'barcode') {
+      const height = toDots(block.height);
+      if (top + height > bottom) {
+        overflow.push(block.field);
+        continue;
+      }
+      elements.push({
+        kind: 'barcode',
+        x: margin,
+        y: top,
+        height,
+        moduleWidth: dpi >= 300 ? 3 : 2,
+        data: value,
+      });
+      y = top + height;
+      continue;
+    }
+
+    const fontHeight = toDots(block.fontSize);
+    const lineHeight = Math.round(fontHeight * LINE_SPACING);
+    const maxChars = Math.max(Math.floor(contentWidth / (fontHeight * CHAR_WIDTH_RATIO)), 1);
+    const availableLines = Math.floor((bottom - top) / lineHeight);
+    const maxLines = Math.min(block.maxLines || 1, availableLines);
+
+    if (maxLines < 1) {
+      overflow.push(block.field);
+      continue;
+    }
+
+    const lines = wrapText(`${block.caption || ''}${value}`, maxChars, maxLines);
+    elements.push({
+      kind: 'text',
+      x: margin,
+      y: top,
+      width: contentWidth,
+      fontHeight,
+      lineHeight,
+      lines,
+      bold: block.bold || false,
+    });
+    y = top + lines.length * lineHeight;
+  }
+
+  return {
+    layoutId: layout.id,
+    dpi,
+    widthDots,
+    heightDots,
+    elements,
+    overflow,
+  };
+};
@@ -0,0 +1,168 @@
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { Resvg } from '@resvg/resvg-js';
+import { LabelData } from '../types';
+import { config } from '../config';
+import { getLayout, layoutLabel, LabelDocument } from './layout';
+import { compileSvg, PREVIEW_FONT_FAMILY } from './svg';
+import { encodeCode128 } from './barcode';
+
+export type PreviewFormat = 'svg' | 'png' | 'pdf';
+
+export interface PreviewOptions {
+  format?: PreviewFormat;
+  layoutId?: string;
+  dpi?: number;
+}
+
+export interface LabelPreview {
+  format: PreviewFormat;
+  contentType: string;
+  layoutId: string;
+  dpi: number;
+  widthMm: number;
+  heightMm: number;
+  data: Buffer;
+  // Fields that did not fit on the label
+  overflow: string[];
+}
+
+const FORMATS: PreviewFormat[] = ['svg', 'png', 'pdf'];
+const MIN_DPI = 100;
+const MAX_DPI = 600;
+
+/**
+ * Check preview options coming from a client, returns an error message or null
+ */
+export const validatePreviewOptions = (options: PreviewOptions): string | null => {
+  if (options.format && !FORMATS.includes(options.format)) {
+    return `Unsupported preview format: ${options.format}. Use one of: ${FORMATS.join(', ')}`;
+  }
+  if (options.dpi !== undefined && (!Number.isInteger(options.dpi) || options.dpi < MIN_DPI || options.dpi > MAX_DPI)) {
+    return `DPI must be an integer between ${MIN_DPI} and ${MAX_DPI}`;
+  }
+  if (options.layoutId && !getLayout(options.layoutId)) {
+    return `Unknown label layout: ${options.layoutId}`;
+  }
+  return null;
+};
+
+const FONT_DIR = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+const FONT_REGULAR = path.join(FONT_DIR, 'DejaVuSans.ttf');
+const FONT_BOLD = path.join(FONT_DIR, 'DejaVuSans-Bold.ttf');
+
+const CONTENT_TYPES: Record<PreviewFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Rasterize the SVG preview 1:1 (one pixel per printer dot)
+ */
+const renderPng = (svg: string): Buffer => {
+  const resvg = new Resvg(svg, {
+    font: {
+      fontFiles: [FONT_REGULAR, FONT_BOLD],
+      loadSystemFonts: false,
+      defaultFontFamily: PREVIEW_FONT_FAMILY,
+    },
+  });
+  return resvg.render().asPng();
+};
+
+/**
+ * Draw the label on a PDF page of the physical label size
+ */
+const renderPdf = (doc: LabelDocument, size: { widthMm: number; heightMm: number }): Promise<Buffer> => {
+  const mmToPt = 72 / 25.4;
+  const dotToPt = 72 / doc.dpi;
+
+  const pdf = new PDFDocument({
+    size: [size.widthMm * mmToPt, size.heightMm * mmToPt],
+    margin: 0,
+    info: { Title: 'Label preview', Producer: 'CloudChef Print Server' },
+  });
+  pdf.registerFont('regular', FONT_REGULAR);
+  pdf.registerFont('bold', FONT_BOLD);
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+  });
+
+  for (const element of doc.elements) {
+    switch (element.kind) {
+      case 'text':
+        pdf.font(element.bold ? 'bold' : 'regular').fontSize(element.fontHeight * dotToPt);
+        element.lines.forEach((line, index) => {
+          const y = element.y + index * element.lineHeight;
+          pdf.text(line, element.x * dotToPt, y * dotToPt, { lineBreak: false });
+        });
+        break;
+      case 'barcode': {
+        let x = element.x;
+        encodeCode128(element.data).forEach((modules, index) => {
+          const width = modules * element.moduleWidth;
+          if (index % 2 === 0) {
+            pdf.rect(x * dotToPt, element.y * dotToPt, width * dotToPt, element.height * dotToPt).fill('#000');
+          }
+          x += width;
+        });
+        break;
+      }
+      case 'line':
+        pdf
+          .rect(element.x * dotToPt, element.y * dotToPt, element.width * dotToPt, element.height * dotToPt)
+          .fill('#000');
+        break;
+    }
+  }
+
+  pdf.end();
+  return done;
+};
+
+/**
+ * Render a preview image of a label with the same layout engine the
+ * printers get, at the printer's label size and resolution
+ */
+export const renderPreview = async (labelData: LabelData, options: PreviewOptions = {}): Promise<LabelPreview> => {
+  const layoutId = options.layoutId || config.labels.defaultLayout;
+  const layout = getLayout(layoutId);
+  if (!layout) {
+    throw new Error(`Unknown label layout: ${layoutId}`);
+  }
+
+  const format = options.format || 'svg';
+  const dpi = options.dpi || config.labels.defaultDpi;
+  const doc = layoutLabel(labelData, layout, dpi);
+  const size = { widthMm: layout.widthMm, heightMm: layout.heightMm };
+
+  let data: Buffer;
+  switch (format) {
+    case 'svg':
+      data = Buffer.from(compileSvg(doc, size), 'utf8');
+      break;
+    case 'png':
+      data = renderPng(compileSvg(doc, size));
+      break;
+    case 'pdf':
+      data = await renderPdf(doc, size);
+      break;
+    default:
+      throw new Error(`Unsupported preview format: ${format}`);
+  }
+
+  return {
+    format,
+    contentType: CONTENT_TYPES[format],
+    layoutId,
+    dpi,
+    ...size,
+    data,
+    overflow: doc.overflow,
+  };
+};
@@ -0,0 +1,74 @@
+import { LabelSize, PrinterInfo, PrinterLanguage, PrintRequirements } from '../types';
+import { config } from '../config';
+
+// Checked in order - EPL-only Zebra/Eltron models must match before generic Zebra
+const MODEL_LANGUAGES: Array<[RegExp, PrinterLanguage]> = [
+  [/\beltron\b|\bepl2?\b|\bt?lp\s?28[0-9]{2}\b/i, 'epl'],
+  [/\bzebra\b|\bzpl\b|\b(zd|zt|gk|gx|gc|zm)[0-9]+/i, 'zpl'],
+  [/\btsc\b|\btspl2?\b|\bxprinter\b|\bxp-?[0-9]+|\bte[0-9]{3}\b|\bttp-?[0-9]+/i, 'tspl'],
+];
+
+// Label stock within this many millimetres counts as the same size
+const LABEL_SIZE_TOLERANCE_MM = 1;
+
+const modelLanguage = (printerInfo?: PrinterInfo | null): PrinterLanguage | undefined => {
+  const model = `${printerInfo?.model || ''} ${printerInfo?.name || ''}`;
+  return MODEL_LANGUAGES.find(([pattern]) => pattern.test(model))?.[1];
+};
+
+const isSameSize = (a: LabelSize, b: LabelSize): boolean =>
+  Math.abs(a.widthMm - b.widthMm) <= LABEL_SIZE_TOLERANCE_MM &&
+  Math.abs(a.heightMm - b.heightMm) <= LABEL_SIZE_TOLERANCE_MM;
+
+/**
+ * Whether the printer's model (or name) identifies its command language
+ */
+export const isKnownPrinterModel = (printerInfo?: PrinterInfo | null): boolean => !!modelLanguage(printerInfo);
+
+/**
+ * Printer command language needed for a printer: the one of its model if
+ * the printer supports it, otherwise the first language it reports
+ */
+export const resolvePrinterLanguage = (printerInfo?: PrinterInfo | null): PrinterLanguage => {
+  const fromModel = modelLanguage(printerInfo);
+  const languages = printerInfo?.capabilities?.languages;
+  if (languages?.length) {
+    return fromModel && languages.includes(fromModel) ? fromModel : languages[0];
+  }
+  return fromModel || (config.labels.defaultLanguage as PrinterLanguage);
+};
+
+/**
+ * Reasons a printer cannot print a job, empty if it can. Capabilities the
+ * agent did not report are assumed to be there, so older agents keep
+ * receiving every job.
+ */
+export const findIncompatibilities = (
+  printerInfo: PrinterInfo | null | undefined,
+  requirements: PrintRequirements
+): string[] => {
+  const capabilities = printerInfo?.capabilities || {};
+  const problems: string[] = [];
+
+  const { labelSize, language } = requirements;
+  if (labelSize && capabilities.labelSizes && !capabilities.labelSizes.some((size) => isSameSize(size, labelSize))) {
+    problems.push(`label size ${labelSize.widthMm}x${labelSize.heightMm} mm is not loaded`);
+  }
+  if (language) {
+    const known = capabilities.languages || (isKnownPrinterModel(printerInfo) ? [modelLanguage(printerInfo)] : null);
+    if (known && !known.includes(language)) {
+      problems.push(`${language.toUpperCase()} is not supported`);
+    }
+  }
+  if (requirements.mediaType && capabilities.mediaType && requirements.mediaType !== capabilities.mediaType) {
+    problems.push(`${requirements.mediaType} media is required`);
+  }
+  if (requirements.color && capabilities.color === false) {
+    problems.push('colour printing is not supported');
+  }
+  if (requirements.cutter && capabilities.cutter === false) {
+    problems.push('printer has no cutter');
+  }
+
+  return problems;
+};
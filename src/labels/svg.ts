@@ -0,0 +1,57 @@
+import { LabelDocument } from './layout';
+import { encodeCode128 } from './barcode';
+
+export const PREVIEW_FONT_FAMILY = 'DejaVu Sans';
+
+// Baseline offset of the preview font relative to the character cell
+const BASELINE_RATIO = 0.8;
+
+const escapeXml = (text: string): string =>
+  text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Render a laid out label as SVG. One user unit is one printer dot and
+ * the physical size is set in millimetres, so the preview matches the
+ * printed label.
+ */
+export const compileSvg = (doc: LabelDocument, size: { widthMm: number; heightMm: number }): string => {
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size.widthMm}mm" height="${size.heightMm}mm" ` +
+    `viewBox="0 0 ${doc.widthDots} ${doc.heightDots}">`,
+    `<rect width="${doc.widthDots}" height="${doc.heightDots}" fill="#fff"/>`,
+  ];
+
+  for (const element of doc.elements) {
+    switch (element.kind) {
+      case 'text':
+        element.lines.forEach((line, index) => {
+          const y = element.y + index * element.lineHeight + Math.round(element.fontHeight * BASELINE_RATIO);
+          out.push(
+            `<text x="${element.x}" y="${y}" font-family="${PREVIEW_FONT_FAMILY}" ` +
+            `font-size="${element.fontHeight}"${element.bold ? ' font-weight="bold"' : ''} fill="#000">` +
+            `${escapeXml(line)}</text>`
+          );
+        });
+        break;
+      case 'barcode': {
+        let x = element.x;
+        encodeCode128(element.data).forEach((modules, index) => {
+          const width = modules * element.moduleWidth;
+          if (index % 2 === 0) {
+            out.push(`<rect x="${x}" y="${element.y}" width="${width}" height="${element.height}" fill="#000"/>`);
+          }
+          x += width;
+        });
+        break;
+      }
+      case 'line':
+        out.push(
+          `<rect x="${element.x}" y="${element.y}" width="${element.width}" height="${element.height}" fill="#000"/>`
+        );
+        break;
+    }
+  }
+
+  out.push('</svg>');
+  return out.join('\n');
+};
@@ -0,0 +1,57 @@
+import { LabelDocument } from './layout';
+
+/**
+ * Quote a TSPL string - embedded double quotes are written as \["]
+ */
+const quote = (text: string): string => `"${text.replace(/"/g, '\\["]')}"`;
+
+/**
+ * Compile a laid out label into TSPL (TSC, Xprinter and clones).
+ * Text uses the scalable font "0" and code page 1251, so the result
+ * must be sent to the printer encoded as Windows-1251.
+ */
+export const compileTspl = (
+  doc: LabelDocument,
+  layout: { widthMm: number; heightMm: number },
+  copies: number = 1
+): string => {
+  // Font "0" sizes are given in points
+  const toPoints = (dots: number) => Math.max(Math.round((dots * 72) / doc.dpi), 1);
+
+  const out: string[] = [
+    `SIZE ${layout.widthMm} mm,${layout.heightMm} mm`,
+    'GAP 2 mm,0 mm',
+    'DIRECTION 1',
+    'REFERENCE 0,0',
+    'CODEPAGE 1251',
+    'CLS',
+  ];
+
+  for (const element of doc.elements) {
+    switch (element.kind) {
+      case 'text': {
+        const size = toPoints(element.fontHeight);
+        element.lines.forEach((line, index) => {
+          const y = element.y + index * element.lineHeight;
+          out.push(`TEXT ${element.x},${y},"0",0,${size},${size},${quote(line)}`);
+          if (element.bold) {
+            out.push(`TEXT ${element.x + 1},${y},"0",0,${size},${size},${quote(line)}`);
+          }
+        });
+        break;
+      }
+      case 'barcode':
+        out.push(
+          `BARCODE ${element.x},${element.y},"128",${element.height},0,0,` +
+          `${element.moduleWidth},${element.moduleWidth},${quote(element.data)}`
+        );
+        break;
+      case 'line':
+        out.push(`BAR ${element.x},${element.y},${element.width},${element.height}`);
+        break;
+    }
+  }
+
+  out.push(`PRINT 1,${Math.max(1, Math.floor(copies))}`);
+  return out.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,50 @@
+import { LabelDocument } from './layout';
+
+/**
+ * Escape field data for ^FH_ (hex escapes) - ^ and ~ would otherwise
+ * be taken as command prefixes
+ */
+const escapeFieldData = (text: string): string =>
+  text.replace(/[_^~]/g, (char) => `_${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Compile a laid out label into ZPL II (UTF-8, ^CI28)
+ */
+export const compileZpl = (doc: LabelDocument, copies: number = 1): string => {
+  const out: string[] = [
+    '^XA',
+    '^CI28',
+    `^PW${doc.widthDots}`,
+    `^LL${doc.heightDots}`,
+    '^LH0,0',
+  ];
+
+  for (const element of doc.elements) {
+    switch (element.kind) {
+      case 'text':
+        element.lines.forEach((line, index) => {
+          const y = element.y + index * element.lineHeight;
+          const field = `^A0N,${element.fontHeight},${element.fontHeight}^FH_^FD${escapeFieldData(line)}^FS`;
+          out.push(`^FO${element.x},${y}${field}`);
+          if (element.bold) {
+            // Font 0 has no bold face - overprint shifted by one dot
+            out.push(`^FO${element.x + 1},${y}${field}`);
+          }
+        });
+        break;
+      case 'barcode':
+        out.push(
+          `^BY${element.moduleWidth},2.0,${element.height}` +
+          `^FO${element.x},${element.y}^BCN,${element.height},N,N,N,A` +
+          `^FH_^FD${escapeFieldData(element.data)}^FS`
+        );
+        break;
+      case 'line':
+        out.push(`^FO${element.x},${element.y}^GB${element.width},${element.height},${element.height}^FS`);
+        break;
+    }
+  }
+
+  out.push(`^PQ${Math.max(1, Math.floor(copies))}`, '^XZ');
+  return out.join('\n');
+};
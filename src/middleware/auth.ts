@@ -3,7 +3,8 @@ import { Socket } from 'socket.io';
 import { config } from '../config';
 import { logger } from '../utils/logger';
 import { AuthPayload } from '../types';
-import { supabaseAdmin } from '../utils/supabase';
+import { agentTokenPrefix } from '../utils/agentTokens';
+import { agentTokenManager } from '../services/AgentTokenManager';
 
 /**
  * Verify JWT token from Socket.IO handshake
@@ -66,62 +67,56 @@ export const verifyHttpToken = (authHeader?: string): AuthPayload | null => {
 };
 
 /**
- * Verify agent token from Supabase database
- * Agent tokens have format: agent_<RESTAURANTCODE>_<32hex>
+ * Verify agent token against the agent token store
+ * Agent tokens have format: agent_<RESTAURANTCODE>_<32hex>; only their
+ * prefix and salted hash are stored
  */
 export const verifyAgentToken = async (token: string): Promise<{ valid: boolean; restaurantCode?: string; tokenId?: string; error?: string }> => {
   try {
-    logger.info('🔍 Проверяем токен агента:', token ? `${token.substring(0, 20)}...` : 'отсутствует');
-
-    // Проверяем формат токена
-    const agentKeyPattern = /^agent_([A-Z0-9]{8})_([a-f0-9]{32})$/;
-    const match = token.match(agentKeyPattern);
-    
-    if (!match) {
-      logger.error('❌ Неверный формат токена агента. Ожидается: agent_<8 chars>_<32 hex chars>');
-      return {
-        valid: false,
-        error: 'Неверный формат токена агента. Ожидается формат: agent_XXXXXXXX_<32 hex chars>'
-      };
+    logger.info('🔍 Проверяем токен агента:', token ? `${agentTokenPrefix(token)}...` : 'отсутствует');
+
+    const verification = await agentTokenManager.verify(token);
+
+    if (verification.valid === false) {
+      switch (verification.reason) {
+        case 'format':
+          logger.error('❌ Неверный формат токена агента. Ожидается: agent_<8 chars>_<32 hex chars>');
+          return {
+            valid: false,
+            error: 'Неверный формат токена агента. Ожидается формат: agent_XXXXXXXX_<32 hex chars>'
+          };
+        case 'expired':
+          logger.error('❌ Срок действия токена агента истёк', {
+            restaurantCode: verification.record.restaurantCode,
+            tokenId: verification.record.id,
+            expiresAt: verification.record.expiresAt,
+          });
+          return {
+            valid: false,
+            error: 'Срок действия токена агента истёк. Создайте новый токен в веб-приложении.'
+          };
+        default:
+          logger.error('❌ Токен агента не найден или неактивен', {
+            tokenPrefix: agentTokenPrefix(token),
+          });
+          return {
+            valid: false,
+            error: 'Токен агента недействителен или был отозван. Создайте новый токен в веб-приложении.'
+          };
+      }
     }
 
-    const [, restaurantCode, apiKey] = match;
-
-    // Проверяем токен в Supabase
-    const { data, error } = await supabaseAdmin
-      .from('agent_tokens')
-      .select('id, restaurant_code, is_active, created_at')
-      .eq('token', token)
-      .eq('is_active', true)
-      .single();
-
-    if (error || !data) {
-      logger.error('❌ Токен агента не найден в базе данных или неактивен', {
-        restaurantCode,
-        error: error?.message,
-      });
-      return {
-        valid: false,
-        error: 'Токен агента недействителен или был отозван. Создайте новый токен в веб-приложении.'
-      };
-    }
-
-    // Обновляем last_used_at
-    await supabaseAdmin
-      .from('agent_tokens')
-      .update({ last_used_at: new Date().toISOString() })
-      .eq('id', data.id);
-
+    const { record } = verification;
     logger.info('✅ Токен агента валиден:', {
-      restaurantCode,
-      tokenId: data.id,
-      createdAt: data.created_at,
+      restaurantCode: record.restaurantCode,
+      tokenId: record.id,
+      createdAt: record.createdAt,
     });
 
     return {
       valid: true,
-      restaurantCode: data.restaurant_code,
-      tokenId: data.id,
+      restaurantCode: record.restaurantCode,
+      tokenId: record.id,
     };
   } catch (error) {
     logger.error('❌ Ошибка проверки токена агента', {
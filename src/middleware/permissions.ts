@@ -0,0 +1,114 @@
+import express from 'express';
+import { Socket } from 'socket.io';
+import { AuthPayload, Permission, SocketRole } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Permissions of each role. Agents have none: they print jobs, they do
+ * not submit or manage them.
+ */
+export const ROLE_PERMISSIONS: Record<SocketRole, Permission[]> = {
+  owner: [
+    'print',
+    'reprint',
+    'cancel',
+    'manage-agent-tokens',
+    'view-history',
+    'manage-routing',
+    'manage-webhooks',
+  ],
+  manager: ['print', 'reprint', 'cancel', 'manage-agent-tokens', 'view-history', 'manage-routing'],
+  'web-client': ['print', 'reprint', 'view-history'],
+  agent: [],
+};
+
+const USER_ROLES: SocketRole[] = ['owner', 'manager', 'web-client'];
+
+/**
+ * Role of a user from the verified JWT `role` claim. Unknown or missing
+ * claims get the least privileged role; no JWT means no role.
+ */
+export const getUserRole = (auth?: AuthPayload | null): SocketRole | undefined => {
+  if (!auth) {
+    return undefined;
+  }
+  return USER_ROLES.includes(auth.role as SocketRole) ? (auth.role as SocketRole) : 'web-client';
+};
+
+/**
+ * Whether a role grants a permission
+ */
+export const hasPermission = (role: SocketRole | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * The permission guard shared by Express routes and Socket.IO handlers:
+ * checks the role and records denials in the audit log
+ */
+export const authorize = (
+  role: SocketRole | undefined,
+  permission: Permission,
+  context: { action: string; userId?: string; socketId?: string; ip?: string }
+): boolean => {
+  if (hasPermission(role, permission)) {
+    return true;
+  }
+
+  logger.warn('Permission denied', { audit: 'permission.denied', role: role || null, permission, ...context });
+  return false;
+};
+
+const deniedResponse = (permission: Permission) => ({
+  success: false,
+  error: `Permission denied: ${permission}`,
+  code: 'PERMISSION_DENIED' as const,
+});
+
+/**
+ * Guard a REST route. Answers 403 and returns false if the user's role
+ * lacks the permission.
+ */
+export const guardHttp = (
+  req: express.Request,
+  res: express.Response,
+  auth: AuthPayload,
+  permission: Permission
+): boolean => {
+  const allowed = authorize(getUserRole(auth), permission, {
+    action: `${req.method} ${req.baseUrl}${req.route?.path || req.path}`,
+    userId: auth.userId,
+    ip: req.ip,
+  });
+  if (!allowed) {
+    res.status(403).json({ error: 'Forbidden', message: `Permission denied: ${permission}`, code: 'PERMISSION_DENIED' });
+  }
+  return allowed;
+};
+
+/**
+ * Guard a socket event. Answers through the callback (or an
+ * `authorization_error` event) and returns false if the socket's role
+ * lacks the permission.
+ */
+export const guardSocket = (
+  socket: Socket,
+  role: SocketRole | undefined,
+  event: string,
+  permission: Permission,
+  callback?: (response: any) => void
+): boolean => {
+  const allowed = authorize(role, permission, {
+    action: `socket:${event}`,
+    userId: socket.data.userId,
+    socketId: socket.id,
+    ip: socket.handshake.address,
+  });
+  if (!allowed) {
+    if (typeof callback === 'function') {
+      callback(deniedResponse(permission));
+    } else {
+      socket.emit('authorization_error', { event, ...deniedResponse(permission) });
+    }
+  }
+  return allowed;
+};
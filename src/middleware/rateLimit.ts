@@ -46,6 +46,26 @@ export const printRateLimiter = rateLimit({
   },
 });
 
+/**
+ * Rate limiter for looking up and approving pairing codes, so codes
+ * cannot be guessed
+ */
+export const pairingApprovalRateLimiter = rateLimit({
+  windowMs: config.pairing.rateLimitWindowMs,
+  max: config.pairing.maxApprovalAttempts,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    logger.warn('Pairing rate limit exceeded', {
+      ip: req.ip,
+      path: req.path,
+    });
+    res.status(429).json({
+      error: 'Too many pairing attempts, please try again later.',
+    });
+  },
+});
+
 /**
  * Socket.IO rate limiter (manual tracking)
  */
@@ -105,3 +125,9 @@ class SocketRateLimiter {
 }
 
 export const socketRateLimiter = new SocketRateLimiter();
+
+// Pairing codes requested by agents, keyed by IP
+export const pairingCodeRateLimiter = new SocketRateLimiter(
+  config.pairing.rateLimitWindowMs,
+  config.pairing.maxCodesPerWindow
+);
@@ -0,0 +1,30 @@
+import { AuthPayload } from '../types';
+import { canAccessRestaurant, getAllowedRestaurants, tenantDeniedResponse } from './tenant';
+
+const user = (claims: Partial<AuthPayload>): AuthPayload => ({ userId: 'u1', ...claims }) as AuthPayload;
+
+describe('tenant guards', () => {
+  it('allows the token restaurant and its memberships', () => {
+    const auth = user({ restaurantId: 'r1', restaurantIds: ['r2', 'r1'] });
+
+    expect(getAllowedRestaurants(auth)).toEqual(['r1', 'r2']);
+    expect(canAccessRestaurant(auth, 'r1')).toBe(true);
+    expect(canAccessRestaurant(auth, 'r2')).toBe(true);
+  });
+
+  it('denies other restaurants, missing IDs and missing tokens', () => {
+    const auth = user({ restaurantId: 'r1' });
+
+    expect(canAccessRestaurant(auth, 'r3')).toBe(false);
+    expect(canAccessRestaurant(auth, undefined)).toBe(false);
+    expect(canAccessRestaurant(null, 'r1')).toBe(false);
+    expect(getAllowedRestaurants(undefined)).toEqual([]);
+  });
+
+  it('answers print requests for another restaurant with TENANT_FORBIDDEN', () => {
+    expect(tenantDeniedResponse('POST /api/print', user({ restaurantId: 'r1' }), 'r3')).toMatchObject({
+      success: false,
+      code: 'TENANT_FORBIDDEN',
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import express from 'express';
+import { Socket } from 'socket.io';
+import { AuthPayload, PrintResponse } from '../types';
+import { logger } from '../utils/logger';
+
+const TENANT_FORBIDDEN_MESSAGE = 'Access to this restaurant is not allowed';
+
+/**
+ * Restaurants a user may access: the token's restaurantId plus its
+ * restaurantIds memberships
+ */
+export const getAllowedRestaurants = (auth?: AuthPayload | null): string[] =>
+  Array.from(new Set([auth?.restaurantId, ...(auth?.restaurantIds || [])].filter(Boolean)));
+
+/**
+ * Whether a user may access a restaurant
+ */
+export const canAccessRestaurant = (auth: AuthPayload | null | undefined, restaurantId?: string | null): boolean =>
+  !!restaurantId && getAllowedRestaurants(auth).includes(restaurantId);
+
+/**
+ * Record a rejected cross-tenant access in the audit log
+ */
+export const auditTenantDenied = (details: {
+  action: string;
+  restaurantId?: string | null;
+  userId?: string;
+  socketId?: string;
+  ip?: string;
+}): void => {
+  logger.warn('Cross-tenant access denied', { audit: 'tenant.denied', ...details });
+};
+
+/**
+ * Reject a REST request for another restaurant (403, audited)
+ */
+export const tenantForbidden = (
+  req: express.Request,
+  res: express.Response,
+  auth: AuthPayload,
+  restaurantId: string | null | undefined
+) => {
+  auditTenantDenied({
+    action: `${req.method} ${req.baseUrl}${req.route?.path || req.path}`,
+    restaurantId,
+    userId: auth.userId,
+    ip: req.ip,
+  });
+  return res.status(403).json({ error: 'Forbidden', message: TENANT_FORBIDDEN_MESSAGE, code: 'TENANT_FORBIDDEN' });
+};
+
+/**
+ * Print response for a print request against another restaurant (audited)
+ */
+export const tenantDeniedResponse = (
+  action: string,
+  auth: AuthPayload | null | undefined,
+  restaurantId: string | null | undefined
+): PrintResponse => {
+  auditTenantDenied({ action, restaurantId, userId: auth?.userId });
+  return { success: false, error: TENANT_FORBIDDEN_MESSAGE, code: 'TENANT_FORBIDDEN' };
+};
+
+/**
+ * Reject a socket event for another restaurant (audited). The client is
+ * answered through its callback or, if it has none, an `authorization_error` event.
+ */
+export const rejectSocketTenant = (
+  socket: Socket,
+  event: string,
+  restaurantId: string | null | undefined,
+  callback?: (response: any) => void
+): void => {
+  auditTenantDenied({
+    action: `socket:${event}`,
+    restaurantId,
+    userId: socket.data.userId,
+    socketId: socket.id,
+    ip: socket.handshake.address,
+  });
+
+  const response = { success: false, error: TENANT_FORBIDDEN_MESSAGE, code: 'TENANT_FORBIDDEN' };
+  if (typeof callback === 'function') {
+    callback(response);
+  } else {
+    socket.emit('authorization_error', { event, ...response });
+  }
+};
@@ -0,0 +1,43 @@
+import { Socket } from 'socket.io';
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { FieldError, validate } from '../validation';
+
+/**
+ * Error body for rejected payloads (REST and socket callbacks)
+ */
+export const validationErrorResponse = (details: FieldError[]) => ({
+  success: false,
+  error: 'Validation failed',
+  details,
+});
+
+/**
+ * Validate a socket event payload. On failure the client is answered through
+ * its callback or, if it has none, a `validation_error` event, and null is returned.
+ */
+export const validateSocketPayload = <S extends z.ZodTypeAny>(
+  socket: Socket,
+  event: string,
+  schema: S,
+  payload: unknown,
+  callback?: (response: any) => void
+): z.infer<S> | null => {
+  const result = validate(schema, payload);
+  if (result.success === true) {
+    return result.data;
+  }
+
+  logger.warn('Rejected invalid socket payload', {
+    socketId: socket.id,
+    event,
+    errors: result.errors,
+  });
+
+  if (typeof callback === 'function') {
+    callback(validationErrorResponse(result.errors));
+  } else {
+    socket.emit('validation_error', { event, ...validationErrorResponse(result.errors) });
+  }
+  return null;
+};
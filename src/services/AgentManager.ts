@@ -1,11 +1,51 @@
 import { ConnectedAgent, PrinterInfo } from '../types';
 import { logger } from '../utils/logger';
 
+/**
+ * Receives changes of agents connected to this process (cluster presence)
+ */
+export interface AgentPresenceListener {
+  agentUpserted(agent: ConnectedAgent): void;
+  agentRemoved(agentId: string): void;
+}
+
+/**
+ * ID of the printer of agents that report a single printer without an ID
+ */
+export const DEFAULT_PRINTER_ID = 'default';
+
+/**
+ * Printer list of an agent from what it reported: either a list of printers
+ * or, from agents predating multi-printer support, a single printerInfo
+ */
+export const toPrinterList = (printerInfo?: PrinterInfo | null, printers?: PrinterInfo[]): PrinterInfo[] => {
+  if (printers && printers.length > 0) {
+    return printers;
+  }
+  return printerInfo ? [{ ...printerInfo, id: printerInfo.id || DEFAULT_PRINTER_ID }] : [];
+};
+
+/**
+ * Printers of an agent; agents announced by older cluster nodes only carry printerInfo
+ */
+export const getAgentPrinters = (agent: ConnectedAgent): PrinterInfo[] =>
+  agent.printers || toPrinterList(agent.printerInfo);
+
 /**
  * Manages connected Print Agents
  */
 export class AgentManager {
   private agents: Map<string, ConnectedAgent> = new Map();
+  // Agents connected to other cluster nodes
+  private remoteAgents: Map<string, ConnectedAgent> = new Map();
+  private presenceListener: AgentPresenceListener | null = null;
+
+  /**
+   * Subscribe to changes of local agents
+   */
+  setPresenceListener(listener: AgentPresenceListener | null): void {
+    this.presenceListener = listener;
+  }
 
   /**
    * Register a new agent
@@ -16,9 +56,10 @@ export class AgentManager {
     restaurantId: string | null,
     userId: string | null,
     code: string,  // ✅ ДОБАВЛЕНО: Pairing code агента
-    printerInfo: PrinterInfo | null,
+    printers: PrinterInfo[],
     version: string,
-    ip?: string
+    ip?: string,
+    station?: string
   ): ConnectedAgent {
     const agent: ConnectedAgent = {
       id: agentId,
@@ -26,15 +67,18 @@ export class AgentManager {
       restaurantId,
       userId,
       code: (code || '').toUpperCase(),  // ✅ ДОБАВЛЕНО: Сохраняем pairing code в верхнем регистре
-      printerInfo,
+      station,
+      printerInfo: printers[0] || null,
+      printers,
       connectedAt: new Date(),
       lastSeen: new Date(),
       version,
-      os: printerInfo?.model,
+      os: printers[0]?.model,
       ip,
     };
 
     this.agents.set(agentId, agent);
+    this.presenceListener?.agentUpserted(agent);
 
     logger.info('Agent registered', {
       agentId,
@@ -42,6 +86,8 @@ export class AgentManager {
       restaurantId,
       userId,
       code,  // ✅ ДОБАВЛЕНО: Логируем code
+      station,
+      printers: printers.map((printer) => printer.id),
       version,
     });
 
@@ -55,6 +101,7 @@ export class AgentManager {
     for (const [agentId, agent] of this.agents.entries()) {
       if (agent.socketId === socketId) {
         this.agents.delete(agentId);
+        this.presenceListener?.agentRemoved(agentId);
         logger.info('Agent unregistered', { agentId, socketId });
         return;
       }
@@ -72,29 +119,39 @@ export class AgentManager {
   }
 
   /**
-   * Update agent's printer info
+   * Update agent's printers
    */
-  updatePrinterInfo(agentId: string, printerInfo: PrinterInfo): void {
+  updatePrinters(agentId: string, printers: PrinterInfo[]): void {
     const agent = this.agents.get(agentId);
     if (agent) {
-      agent.printerInfo = printerInfo;
+      agent.printers = printers;
+      agent.printerInfo = printers[0] || null;
       agent.lastSeen = new Date();
-      logger.info('Agent printer info updated', { agentId, printerInfo });
+      this.presenceListener?.agentUpserted(agent);
+      logger.info('Agent printers updated', { agentId, printers });
     }
   }
 
+  /**
+   * Get a printer of an agent by its ID
+   */
+  getPrinter(agentId: string, printerId: string): PrinterInfo | undefined {
+    const agent = this.getAgent(agentId);
+    return agent ? getAgentPrinters(agent).find((printer) => printer.id === printerId) : undefined;
+  }
+
   /**
    * Get agent by ID
    */
   getAgent(agentId: string): ConnectedAgent | undefined {
-    return this.agents.get(agentId);
+    return this.agents.get(agentId) || this.remoteAgents.get(agentId);
   }
 
   /**
    * Get agent by socket ID
    */
   getAgentBySocketId(socketId: string): ConnectedAgent | undefined {
-    for (const agent of this.agents.values()) {
+    for (const agent of this.iterateAgents()) {
       if (agent.socketId === socketId) {
         return agent;
       }
@@ -106,6 +163,13 @@ export class AgentManager {
    * Get all agents
    */
   getAllAgents(): ConnectedAgent[] {
+    return Array.from(this.iterateAgents());
+  }
+
+  /**
+   * Get agents connected to this process only
+   */
+  getLocalAgents(): ConnectedAgent[] {
     return Array.from(this.agents.values());
   }
 
@@ -113,7 +177,7 @@ export class AgentManager {
    * Get agents for a specific restaurant
    */
   getAgentsByRestaurant(restaurantId: string): ConnectedAgent[] {
-    return Array.from(this.agents.values()).filter(
+    return Array.from(this.iterateAgents()).filter(
       (agent) => agent.restaurantId === restaurantId
     );
   }
@@ -122,7 +186,7 @@ export class AgentManager {
    * Get total agent count
    */
   getCount(): number {
-    return this.agents.size;
+    return this.agents.size + this.remoteAgents.size;
   }
 
   /**
@@ -130,7 +194,7 @@ export class AgentManager {
    */
   getAgentsByRestaurantGrouped(): Record<string, number> {
     const grouped: Record<string, number> = {};
-    for (const agent of this.agents.values()) {
+    for (const agent of this.iterateAgents()) {
       const restaurantId = agent.restaurantId || 'unknown';
       grouped[restaurantId] = (grouped[restaurantId] || 0) + 1;
     }
@@ -141,7 +205,23 @@ export class AgentManager {
    * Check if agent is online
    */
   isOnline(agentId: string): boolean {
-    return this.agents.has(agentId);
+    return this.agents.has(agentId) || this.remoteAgents.has(agentId);
+  }
+
+  /**
+   * Add or update an agent connected to another cluster node
+   */
+  upsertRemote(agent: ConnectedAgent): void {
+    if (!this.agents.has(agent.id)) {
+      this.remoteAgents.set(agent.id, agent);
+    }
+  }
+
+  /**
+   * Remove an agent connected to another cluster node
+   */
+  removeRemote(agentId: string): boolean {
+    return this.remoteAgents.delete(agentId);
   }
 
   /**
@@ -154,10 +234,16 @@ export class AgentManager {
     for (const [agentId, agent] of this.agents.entries()) {
       if (now - agent.lastSeen.getTime() > staleThreshold) {
         this.agents.delete(agentId);
+        this.presenceListener?.agentRemoved(agentId);
         logger.warn('Stale agent removed', { agentId });
       }
     }
   }
+
+  private *iterateAgents(): IterableIterator<ConnectedAgent> {
+    yield* this.agents.values();
+    yield* this.remoteAgents.values();
+  }
 }
 
 export const agentManager = new AgentManager();
@@ -0,0 +1,208 @@
+import { AgentSelectionStrategyName, ConnectedAgent, LabelData, PrinterInfo, PrintRequirements } from '../types';
+import { config } from '../config';
+import { findIncompatibilities, isKnownPrinterModel } from '../labels';
+import { printQueueManager } from './PrintQueueManager';
+import { getAgentPrinters } from './AgentManager';
+
+/**
+ * What a print job needs from the agent that prints it
+ */
+export interface SelectionContext {
+  restaurantId: string;
+  userId?: string;
+  layoutId?: string;
+  labelData?: LabelData;  // Batch jobs: the first item
+  requirements?: PrintRequirements;  // Including the label size of the layout
+}
+
+/**
+ * Picks one agent out of a pool of equally healthy candidates
+ */
+export interface AgentSelectionStrategy {
+  readonly name: AgentSelectionStrategyName;
+  select(candidates: ConnectedAgent[], context: SelectionContext): ConnectedAgent;
+}
+
+/**
+ * Health tier of a printer, lower is better:
+ * 0 ready, 1 busy or not reported yet, 2 error or out of paper
+ */
+const printerTier = (printer?: PrinterInfo | null): number => {
+  if (!printer) {
+    return 1;
+  }
+  if (printer.status === 'error' || printer.paperStatus === 'out') {
+    return 2;
+  }
+  return printer.status === 'ready' ? 0 : 1;
+};
+
+/**
+ * Printers of an agent that can print a job
+ */
+export const getCompatiblePrinters = (agent: ConnectedAgent, requirements: PrintRequirements = {}): PrinterInfo[] =>
+  getAgentPrinters(agent).filter((printer) => findIncompatibilities(printer, requirements).length === 0);
+
+/**
+ * Whether an agent can print a job. Agents that reported no printers are
+ * given the benefit of the doubt.
+ */
+const isCompatible = (agent: ConnectedAgent, requirements?: PrintRequirements): boolean =>
+  getAgentPrinters(agent).length === 0 || getCompatiblePrinters(agent, requirements).length > 0;
+
+/**
+ * Healthiest printer of an agent that can print the job, the first one
+ * reported on a tie
+ */
+const bestPrinter = (agent: ConnectedAgent, requirements?: PrintRequirements): PrinterInfo | undefined =>
+  getCompatiblePrinters(agent, requirements).reduce<PrinterInfo | undefined>(
+    (best, printer) => (!best || printerTier(printer) < printerTier(best) ? printer : best),
+    undefined
+  );
+
+/**
+ * Health tier of an agent: that of its healthiest printer for the job
+ */
+const healthTier = (agent: ConnectedAgent, requirements?: PrintRequirements): number =>
+  printerTier(bestPrinter(agent, requirements));
+
+const byId = (a: ConnectedAgent, b: ConnectedAgent) => a.id.localeCompare(b.id);
+
+/**
+ * Spreads jobs evenly, one agent after another
+ */
+export class RoundRobinStrategy implements AgentSelectionStrategy {
+  readonly name = 'round-robin';
+  private counters: Map<string, number> = new Map();
+
+  select(candidates: ConnectedAgent[], context: SelectionContext): ConnectedAgent {
+    const next = this.counters.get(context.restaurantId) || 0;
+    this.counters.set(context.restaurantId, next + 1);
+    return [...candidates].sort(byId)[next % candidates.length];
+  }
+}
+
+/**
+ * Sends the job to the agent with the fewest unfinished jobs
+ */
+export class LeastOutstandingStrategy implements AgentSelectionStrategy {
+  readonly name = 'least-outstanding';
+
+  select(candidates: ConnectedAgent[]): ConnectedAgent {
+    const outstanding = new Map(
+      candidates.map((agent) => [agent.id, printQueueManager.getOutstandingCount(agent.id)])
+    );
+    return [...candidates].sort((a, b) => outstanding.get(a.id) - outstanding.get(b.id) || byId(a, b))[0];
+  }
+}
+
+/**
+ * Keeps printing where the user (or the restaurant) printed last, so a
+ * station's labels come out of the same printer
+ */
+export class LastUsedStrategy implements AgentSelectionStrategy {
+  readonly name = 'last-used';
+  private fallback = new LeastOutstandingStrategy();
+
+  select(candidates: ConnectedAgent[], context: SelectionContext): ConnectedAgent {
+    const recent = printQueueManager.getCommandsByRestaurant(context.restaurantId, 100);
+    const lastUsed = (commands: typeof recent) =>
+      commands
+        .map((command) => candidates.find((agent) => agent.id === command.agentId))
+        .find(Boolean);
+
+    return (
+      (context.userId && lastUsed(recent.filter((command) => command.userId === context.userId))) ||
+      lastUsed(recent) ||
+      this.fallback.select(candidates)
+    );
+  }
+}
+
+/**
+ * Prefers printers the server can render labels for (language reported or
+ * known from the model) with paper to spare, then the least loaded one
+ */
+export class CapabilityMatchStrategy implements AgentSelectionStrategy {
+  readonly name = 'capability-match';
+  private fallback = new LeastOutstandingStrategy();
+
+  select(candidates: ConnectedAgent[], context: SelectionContext): ConnectedAgent {
+    const score = (agent: ConnectedAgent) => {
+      const printer = bestPrinter(agent, context.requirements);
+      const knownLanguage = isKnownPrinterModel(printer) || !!printer?.capabilities?.languages;
+      return (knownLanguage ? 2 : 0) + (printer?.paperStatus === 'low' ? 0 : 1);
+    };
+
+    const best = Math.max(...candidates.map(score));
+    return this.fallback.select(candidates.filter((agent) => score(agent) === best));
+  }
+}
+
+/**
+ * Chooses the agent for a print job. Only agents with a printer that can
+ * handle the job are considered. Agents whose suitable printers all report
+ * `error` or `paperStatus: 'out'` are only used when no healthy agent is online;
+ * among the healthiest agents the restaurant's strategy decides.
+ */
+export class AgentSelector {
+  private strategies: Map<AgentSelectionStrategyName, AgentSelectionStrategy> = new Map();
+
+  constructor(strategies: AgentSelectionStrategy[]) {
+    for (const strategy of strategies) {
+      this.strategies.set(strategy.name, strategy);
+    }
+  }
+
+  /**
+   * Names of the available strategies
+   */
+  getStrategyNames(): AgentSelectionStrategyName[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  /**
+   * Whether a strategy with this name exists
+   */
+  hasStrategy(name: string): name is AgentSelectionStrategyName {
+    return this.strategies.has(name as AgentSelectionStrategyName);
+  }
+
+  /**
+   * Pick an agent, or undefined if no candidate can print the job
+   */
+  select(
+    agents: ConnectedAgent[],
+    context: SelectionContext,
+    strategyName: AgentSelectionStrategyName = config.agentSelection.defaultStrategy as AgentSelectionStrategyName
+  ): ConnectedAgent | undefined {
+    const compatible = agents.filter((agent) => isCompatible(agent, context.requirements));
+    if (compatible.length === 0) {
+      return undefined;
+    }
+
+    const tier = (agent: ConnectedAgent) => healthTier(agent, context.requirements);
+    const bestTier = Math.min(...compatible.map(tier));
+    const pool = compatible.filter((agent) => tier(agent) === bestTier);
+    const strategy = this.strategies.get(strategyName) || this.strategies.get('least-outstanding');
+
+    return pool.length === 1 ? pool[0] : strategy.select(pool, context);
+  }
+
+  /**
+   * Printer of an agent to print on: the requested one if the agent has
+   * it, otherwise the healthiest one that can print the job. Undefined if
+   * the agent reported none.
+   */
+  selectPrinter(agent: ConnectedAgent, printerId?: string, requirements?: PrintRequirements): PrinterInfo | undefined {
+    const requested = printerId && getAgentPrinters(agent).find((printer) => printer.id === printerId);
+    return requested || bestPrinter(agent, requirements) || getAgentPrinters(agent)[0];
+  }
+}
+
+export const agentSelector = new AgentSelector([
+  new RoundRobinStrategy(),
+  new LeastOutstandingStrategy(),
+  new LastUsedStrategy(),
+  new CapabilityMatchStrategy(),
+]);
@@ -0,0 +1,45 @@
+import { AgentTokenRecord } from '../types';
+import { LocalAgentTokenStore, MemoryRecordStore } from '../storage';
+import { AgentTokenManager } from './AgentTokenManager';
+
+describe('AgentTokenManager rotation', () => {
+  let manager: AgentTokenManager;
+
+  beforeEach(() => {
+    manager = new AgentTokenManager(new LocalAgentTokenStore(new MemoryRecordStore<AgentTokenRecord>()));
+  });
+
+  it('keeps the old token working for the grace period', async () => {
+    const { token, record } = await manager.issue('ABCD1234', 'u1');
+
+    const rotated = await manager.rotate(record.id, 'u1', 24);
+
+    expect(rotated.previous).toMatchObject({ isActive: true, replacedBy: rotated.issued.record.id });
+    expect((await manager.verify(token)).valid).toBe(true);
+    expect((await manager.verify(rotated.issued.token)).valid).toBe(true);
+    expect(await manager.rotate(record.id, 'u1', 24)).toBeNull();
+  });
+
+  it('revokes the old token at once with no grace period', async () => {
+    const { token, record } = await manager.issue('ABCD1234', 'u1');
+
+    await manager.rotate(record.id, 'u1', 0);
+
+    expect((await manager.verify(token)).valid).toBe(false);
+  });
+
+  it('lets only one of two concurrent rotations replace the token', async () => {
+    const { record } = await manager.issue('ABCD1234', 'u1');
+
+    const results = await Promise.all([manager.rotate(record.id, 'u1', 24), manager.rotate(record.id, 'u2', 24)]);
+
+    const winners = results.filter((result) => result);
+    expect(winners).toHaveLength(1);
+    expect(results).toContain(null);
+    expect((await manager.get(record.id)).replacedBy).toBe(winners[0].issued.record.id);
+    // The losing rotation's token is revoked, only the winner's is live
+    expect((await manager.list('ABCD1234')).map((token) => token.id).sort()).toEqual(
+      [record.id, winners[0].issued.record.id].sort()
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { AgentTokenRecord } from '../types';
+import { logger } from '../utils/logger';
+import { AGENT_TOKEN_PATTERN, agentTokenPrefix, issueAgentToken, matchesAgentToken } from '../utils/agentTokens';
+import { AgentTokenStore, createAgentTokenStore } from '../storage';
+
+/**
+ * A newly issued token: shown to the user once, never stored
+ */
+export interface IssuedToken {
+  token: string;
+  record: AgentTokenRecord;
+}
+
+/**
+ * Outcome of checking a token presented by an agent
+ */
+export type AgentTokenVerification =
+  | { valid: true; record: AgentTokenRecord }
+  | { valid: false; reason: 'format' | 'not-found' | 'expired'; record?: AgentTokenRecord };
+
+const expiryIn = (days?: number): Date | undefined =>
+  days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : undefined;
+
+/**
+ * Agent tokens of restaurants: issuing, listing, revocation, rotation and
+ * verification, on top of the configured AgentTokenStore
+ */
+export class AgentTokenManager {
+  constructor(private store: AgentTokenStore) {}
+
+  /**
+   * Get token by ID
+   */
+  get(id: string): Promise<AgentTokenRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Active tokens of a restaurant, newest first
+   */
+  list(restaurantCode: string): Promise<AgentTokenRecord[]> {
+    return this.store.listActive(restaurantCode);
+  }
+
+  /**
+   * Issue a token for a restaurant, optionally expiring after some days
+   */
+  async issue(restaurantCode: string, createdBy: string, expiresInDays?: number): Promise<IssuedToken> {
+    const issued = issueAgentToken(restaurantCode);
+    const record = await this.store.create({
+      restaurantCode,
+      tokenPrefix: issued.prefix,
+      tokenHash: issued.hash,
+      tokenSalt: issued.salt,
+      createdBy,
+      expiresAt: expiryIn(expiresInDays),
+    });
+    return { token: issued.token, record };
+  }
+
+  /**
+   * Revoke a token. Returns false if it does not exist.
+   */
+  revoke(id: string): Promise<boolean> {
+    return this.store.update(id, { isActive: false });
+  }
+
+  /**
+   * Issue a replacement for a token. The old one keeps working for
+   * `graceHours` (not beyond its own expiry); 0 revokes it at once.
+   * Returns undefined if the token does not exist or is revoked, null if
+   * it was already replaced. Of two concurrent rotations only one replaces
+   * the token; the loser revokes the token it issued and gets null.
+   */
+  async rotate(
+    id: string,
+    createdBy: string,
+    graceHours: number,
+    expiresInDays?: number
+  ): Promise<{ issued: IssuedToken; previous: AgentTokenRecord } | undefined | null> {
+    const previous = await this.store.get(id);
+    if (!previous || !previous.isActive) {
+      return undefined;
+    }
+    if (previous.replacedBy) {
+      return null;
+    }
+
+    const issued = await this.issue(previous.restaurantCode, createdBy, expiresInDays);
+
+    const graceEnd = new Date(Date.now() + graceHours * 60 * 60 * 1000);
+    const expiresAt = previous.expiresAt && previous.expiresAt < graceEnd ? previous.expiresAt : graceEnd;
+    const changes = { expiresAt, replacedBy: issued.record.id, isActive: graceHours > 0 };
+    if (!(await this.store.markReplaced(id, changes))) {
+      await this.revoke(issued.record.id);
+      return null;
+    }
+
+    return { issued, previous: { ...previous, ...changes } };
+  }
+
+  /**
+   * Check a token presented by an agent: format, salted hash and expiry
+   */
+  async verify(token: string): Promise<AgentTokenVerification> {
+    if (!AGENT_TOKEN_PATTERN.test(token || '')) {
+      return { valid: false, reason: 'format' };
+    }
+
+    const candidates = await this.store.findActiveByPrefix(agentTokenPrefix(token));
+    const record = candidates.find((candidate) => matchesAgentToken(token, candidate.tokenSalt, candidate.tokenHash));
+    if (!record) {
+      return { valid: false, reason: 'not-found' };
+    }
+    if (record.expiresAt && record.expiresAt.getTime() <= Date.now()) {
+      return { valid: false, reason: 'expired', record };
+    }
+
+    const lastUsedAt = new Date();
+    this.store.update(record.id, { lastUsedAt }).catch((err) =>
+      logger.warn('Failed to record agent token use', {
+        tokenId: record.id,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      })
+    );
+
+    return { valid: true, record: { ...record, lastUsedAt } };
+  }
+}
+
+export const agentTokenManager = new AgentTokenManager(createAgentTokenStore());
@@ -0,0 +1,127 @@
+import Redis from 'ioredis';
+import { config } from '../config';
+import { PrintCommand } from '../types';
+import { createRedisClient } from '../utils/redis';
+import { RedisPrintCommandStore } from '../storage/RedisPrintCommandStore';
+import { ClusterManager } from './ClusterManager';
+
+// Needs a local Redis: `docker compose up -d redis`, then REDIS_URL=redis://localhost:6379 npm test
+const describeWithRedis = process.env.REDIS_URL ? describe : describe.skip;
+
+const waitFor = async (check: () => boolean, timeoutMs: number = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for replication');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+const command = (id: string): PrintCommand => ({
+  id,
+  restaurantId: 'r1',
+  userId: 'u1',
+  agentId: null,
+  labelData: { productName: 'Борщ', preparationDate: '2026-10-19', storageMethod: 'охлаждение' },
+  status: 'queued',
+  createdAt: new Date(),
+});
+
+describeWithRedis('cluster mode (local Redis)', () => {
+  const clients: Redis[] = [];
+  const client = (name: string): Redis => {
+    const redis = createRedisClient(name);
+    clients.push(redis);
+    return redis;
+  };
+  let redis: Redis;
+
+  beforeAll(() => {
+    config.redis.keyPrefix = `cloudchef-test:${Date.now()}:`;
+    redis = client('test');
+  });
+
+  afterAll(async () => {
+    const keys = await redis.keys(`${config.redis.keyPrefix}*`);
+    if (keys.length > 0) {
+      await redis.del(...keys);
+    }
+    await Promise.all(clients.map((c) => c.quit()));
+  });
+
+  describe('shared print commands', () => {
+    const node = async (nodeId: string): Promise<RedisPrintCommandStore> => {
+      const store = new RedisPrintCommandStore(redis, client(`${nodeId}-sub`), nodeId, config.redis.keyPrefix);
+      await store.open();
+      return store;
+    };
+
+    it('replicates commands saved on one node to the others', async () => {
+      const a = await node('node-a');
+      const b = await node('node-b');
+
+      a.save(command('c1'));
+      await waitFor(() => b.get('c1') !== undefined);
+      expect(b.get('c1').createdAt).toBeInstanceOf(Date);
+
+      b.save({ ...command('c1'), status: 'success' });
+      await waitFor(() => a.get('c1')?.status === 'success');
+    });
+
+    it('loads existing commands when a node joins', async () => {
+      const a = await node('node-a');
+      a.save(command('c2'));
+      // Writes reach Redis in the background
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const late = await node('node-c');
+      expect(late.get('c2')).toMatchObject({ id: 'c2', restaurantId: 'r1' });
+    });
+  });
+
+  describe('leader election', () => {
+    const leaderKey = () => `${config.redis.keyPrefix}leader`;
+    const heartbeat = (manager: ClusterManager): Promise<void> => (manager as any).heartbeat();
+
+    const node = (): ClusterManager => {
+      const manager = new ClusterManager();
+      (manager as any).redis = redis;
+      return manager;
+    };
+
+    afterEach(async () => {
+      await redis.del(leaderKey());
+    });
+
+    it('takes the free leader key and keeps renewing it', async () => {
+      const manager = node();
+      await heartbeat(manager);
+
+      expect(manager.isLeader()).toBe(true);
+      expect(await redis.get(leaderKey())).toBe(manager.nodeId);
+
+      await redis.pexpire(leaderKey(), 50);
+      await heartbeat(manager);
+      expect(await redis.pttl(leaderKey())).toBeGreaterThan(50);
+    });
+
+    it('does not renew a leader key held by another node', async () => {
+      await redis.set(leaderKey(), 'other-node', 'PX', 10000);
+      const manager = node();
+      await heartbeat(manager);
+
+      expect(manager.isLeader()).toBe(false);
+      expect(await redis.get(leaderKey())).toBe('other-node');
+      expect(await redis.pttl(leaderKey())).toBeLessThanOrEqual(10000);
+    });
+
+    it('lists live nodes from their liveness keys', async () => {
+      const manager = node();
+      await heartbeat(manager);
+      await redis.set(`${config.redis.keyPrefix}nodes:other-node`, Date.now().toString(), 'PX', 10000);
+
+      expect((await manager.getNodes()).sort()).toEqual([manager.nodeId, 'other-node'].sort());
+    });
+  });
+});
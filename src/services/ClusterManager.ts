@@ -0,0 +1,259 @@
+import Redis from 'ioredis';
+import { Server } from 'socket.io';
+import { createAdapter } from 'socket.io-redis-adapter';
+import { ConnectedAgent } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { createRedisClient, getRedis } from '../utils/redis';
+import { agentManager, AgentPresenceListener } from './AgentManager';
+import { printDispatcher } from './PrintDispatcher';
+
+type PresenceMessage =
+  | { nodeId: string; type: 'upsert'; agent: ConnectedAgent }
+  | { nodeId: string; type: 'remove'; agentId: string };
+
+interface PresenceEntry {
+  nodeId: string;
+  agent: ConnectedAgent;
+}
+
+// Extend or release the leader key only while this node still holds it
+const RENEW_LEADER = `if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+const RELEASE_LEADER = `if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const reviveAgent = (raw: any): ConnectedAgent => ({
+  ...raw,
+  connectedAt: new Date(raw.connectedAt),
+  lastSeen: new Date(raw.lastSeen),
+});
+
+/**
+ * Cluster mode: connects this instance to the other server nodes through Redis.
+ *
+ * - Socket.IO Redis adapter, so emits to rooms and agent sockets reach every node
+ * - Shared agent presence: local agents are written to a Redis hash and
+ *   broadcast on a channel; remote agents are mirrored into AgentManager
+ * - Node liveness keys; the leader node removes agents of dead nodes, takes
+ *   over the in-flight commands of dead nodes and runs cluster-wide sweeps
+ *   (e.g. queued job expiry)
+ */
+export class ClusterManager implements AgentPresenceListener {
+  readonly nodeId = config.cluster.nodeId;
+
+  private redis: Redis | null = null;
+  private subscriber: Redis | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private leader = !config.cluster.enabled;
+
+  private readonly agentsKey = `${config.redis.keyPrefix}agents`;
+  private readonly presenceChannel = `${config.redis.keyPrefix}agents:changes`;
+  private readonly leaderKey = `${config.redis.keyPrefix}leader`;
+
+  /**
+   * Whether cluster mode is active
+   */
+  isEnabled(): boolean {
+    return this.redis !== null;
+  }
+
+  /**
+   * Whether this node should run cluster-wide background jobs.
+   * Always true outside cluster mode.
+   */
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Join the cluster
+   */
+  async start(io: Server): Promise<void> {
+    this.redis = getRedis();
+    this.subscriber = createRedisClient('presence-subscriber');
+
+    io.adapter(createAdapter(createRedisClient('adapter-pub'), createRedisClient('adapter-sub')));
+
+    this.subscriber.on('message', (channel, message) => {
+      if (channel === this.presenceChannel) {
+        this.applyPresence(message);
+      }
+    });
+    await this.subscriber.subscribe(this.presenceChannel);
+
+    await this.heartbeat();
+    await this.loadRemoteAgents();
+    agentManager.setPresenceListener(this);
+
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch((error) => {
+        logger.error('Cluster heartbeat failed', { nodeId: this.nodeId, error: error.message });
+      });
+    }, config.cluster.heartbeatIntervalMs);
+
+    logger.info('🌐 Cluster mode enabled', {
+      nodeId: this.nodeId,
+      remoteAgents: agentManager.getCount() - agentManager.getLocalAgents().length,
+    });
+  }
+
+  /**
+   * Leave the cluster, withdrawing this node's agents
+   */
+  async stop(): Promise<void> {
+    if (!this.redis) {
+      return;
+    }
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+    }
+    agentManager.setPresenceListener(null);
+
+    for (const agent of agentManager.getLocalAgents()) {
+      this.agentRemoved(agent.id);
+    }
+    await this.redis.del(this.nodeKey(this.nodeId));
+    if (this.leader) {
+      await this.redis.eval(RELEASE_LEADER, 1, this.leaderKey, this.nodeId);
+    }
+    await this.subscriber?.quit();
+
+    logger.info('Left the cluster', { nodeId: this.nodeId });
+  }
+
+  /**
+   * Get IDs of live cluster nodes
+   */
+  async getNodes(): Promise<string[]> {
+    if (!this.redis) {
+      return [this.nodeId];
+    }
+    const prefix = this.nodeKey('');
+    const nodes: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', 100);
+      nodes.push(...keys.map((key) => key.slice(prefix.length)));
+      cursor = next;
+    } while (cursor !== '0');
+    return nodes;
+  }
+
+  agentUpserted(agent: ConnectedAgent): void {
+    this.publish({ nodeId: this.nodeId, type: 'upsert', agent }, (multi) =>
+      multi.hset(this.agentsKey, agent.id, JSON.stringify({ nodeId: this.nodeId, agent }))
+    );
+  }
+
+  agentRemoved(agentId: string): void {
+    this.publish({ nodeId: this.nodeId, type: 'remove', agentId }, (multi) =>
+      multi.hdel(this.agentsKey, agentId)
+    );
+  }
+
+  private publish(message: PresenceMessage, write: (multi: ReturnType<Redis['multi']>) => void): void {
+    if (!this.redis) {
+      return;
+    }
+    const multi = this.redis.multi();
+    write(multi);
+    multi
+      .publish(this.presenceChannel, JSON.stringify(message))
+      .exec()
+      .catch((error) => {
+        logger.error('Failed to publish agent presence', { error: error.message });
+      });
+  }
+
+  private applyPresence(message: string): void {
+    try {
+      const change = JSON.parse(message) as PresenceMessage;
+      if (change.nodeId === this.nodeId) {
+        return;
+      }
+
+      if (change.type === 'upsert') {
+        agentManager.upsertRemote(reviveAgent(change.agent));
+      } else {
+        agentManager.removeRemote(change.agentId);
+      }
+    } catch (error) {
+      logger.warn('Ignoring malformed presence message', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private async loadRemoteAgents(): Promise<void> {
+    const entries = await this.redis!.hgetall(this.agentsKey);
+    for (const json of Object.values(entries)) {
+      const entry = JSON.parse(json) as PresenceEntry;
+      if (entry.nodeId !== this.nodeId) {
+        agentManager.upsertRemote(reviveAgent(entry.agent));
+      }
+    }
+  }
+
+  /**
+   * Refresh node liveness, elect a leader and (as leader) clean up after dead nodes
+   */
+  private async heartbeat(): Promise<void> {
+    const redis = this.redis!;
+    const ttl = config.cluster.nodeTtlMs;
+
+    await redis.set(this.nodeKey(this.nodeId), Date.now().toString(), 'PX', ttl);
+
+    const acquired = await redis.set(this.leaderKey, this.nodeId, 'PX', ttl, 'NX');
+    this.leader = !!acquired || (await redis.eval(RENEW_LEADER, 1, this.leaderKey, this.nodeId, ttl)) === 1;
+
+    if (this.leader) {
+      await this.removeDeadNodeAgents();
+      await this.recoverDeadNodeCommands();
+    }
+  }
+
+  private async removeDeadNodeAgents(): Promise<void> {
+    const redis = this.redis!;
+    const entries = await redis.hgetall(this.agentsKey);
+
+    for (const [agentId, json] of Object.entries(entries)) {
+      const { nodeId } = JSON.parse(json) as PresenceEntry;
+      if (nodeId === this.nodeId || (await redis.exists(this.nodeKey(nodeId)))) {
+        continue;
+      }
+
+      await redis.hdel(this.agentsKey, agentId);
+      await redis.publish(
+        this.presenceChannel,
+        JSON.stringify({ nodeId: this.nodeId, type: 'remove', agentId })
+      );
+      agentManager.removeRemote(agentId);
+
+      // The agent's socket died with its node - re-route its jobs
+      printDispatcher.handleAgentDisconnect(agentId);
+
+      logger.warn('Removed agent of dead cluster node', { agentId, nodeId });
+    }
+  }
+
+  /**
+   * Commands whose deadlines and retries were kept by a node that died
+   * (including this process before a restart under another node ID)
+   */
+  private async recoverDeadNodeCommands(): Promise<void> {
+    const nodes = new Set(await this.getNodes());
+    printDispatcher.recoverInterrupted((command) => !command.nodeId || !nodes.has(command.nodeId));
+  }
+
+  private nodeKey(nodeId: string): string {
+    return `${config.redis.keyPrefix}nodes:${nodeId}`;
+  }
+}
+
+export const clusterManager = new ClusterManager();
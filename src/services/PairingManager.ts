@@ -0,0 +1,134 @@
+import { randomInt } from 'crypto';
+import { Server } from 'socket.io';
+import { PairingRequest } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { RecordStore, createRecordStore, reviveDates } from '../storage';
+import { agentTokenManager, IssuedToken } from './AgentTokenManager';
+
+/**
+ * Device pairing of new agents.
+ *
+ * An agent without a token asks for a 6-digit code (`request-pairing-code`)
+ * and shows it; a manager approves the code for a restaurant, and the
+ * issued agent token is pushed to the agent socket as `pairing-approved`.
+ * The agent then reconnects with the token. Codes are single use, expire
+ * after `pairing.codeTtlMs` (`pairing-expired`) and are dropped when the
+ * agent disconnects.
+ */
+export class PairingManager {
+  private io: Server | null = null;
+  private store: RecordStore<PairingRequest>;
+
+  constructor(store: RecordStore<PairingRequest>) {
+    this.store = store;
+  }
+
+  /**
+   * Attach the Socket.IO server approvals are pushed through
+   */
+  attach(io: Server): void {
+    this.io = io;
+  }
+
+  /**
+   * Issue a code for an agent socket, replacing one it asked for before
+   */
+  request(socketId: string, details: Pick<PairingRequest, 'ip' | 'deviceName' | 'station'>): PairingRequest {
+    this.forgetSocket(socketId);
+
+    let code: string;
+    do {
+      code = randomInt(0, 1000000).toString().padStart(6, '0');
+    } while (this.store.get(code));
+
+    const now = new Date();
+    const request: PairingRequest = {
+      id: code,
+      socketId,
+      ...details,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + config.pairing.codeTtlMs),
+    };
+    this.store.save(request);
+
+    logger.info('Pairing code issued', { socketId, ip: details.ip, deviceName: details.deviceName });
+    return request;
+  }
+
+  /**
+   * Pending request of a code, undefined if unknown or expired
+   */
+  get(code: string): PairingRequest | undefined {
+    const request = this.store.get(code);
+    return request && request.expiresAt.getTime() > Date.now() ? request : undefined;
+  }
+
+  /**
+   * Approve a code for a restaurant: issue an agent token and push it to
+   * the agent. Returns undefined if the code is unknown or expired.
+   */
+  async approve(
+    code: string,
+    restaurantCode: string,
+    userId: string,
+    expiresInDays?: number
+  ): Promise<{ request: PairingRequest; issued: IssuedToken } | undefined> {
+    const request = this.get(code);
+    if (!request) {
+      return undefined;
+    }
+
+    // Single use, even if issuing the token fails
+    this.store.delete(code);
+
+    const issued = await agentTokenManager.issue(restaurantCode, userId, expiresInDays);
+    this.io?.to(request.socketId).emit('pairing-approved', {
+      agentToken: issued.token,
+      tokenId: issued.record.id,
+      restaurantCode,
+      expiresAt: issued.record.expiresAt || null,
+    });
+
+    logger.info('Pairing code approved', {
+      socketId: request.socketId,
+      restaurantCode,
+      tokenId: issued.record.id,
+      tokenPrefix: issued.record.tokenPrefix,
+      userId,
+    });
+
+    return { request, issued };
+  }
+
+  /**
+   * Drop the pending code of a disconnected agent
+   */
+  forgetSocket(socketId: string): void {
+    for (const request of this.store.list((r) => r.socketId === socketId)) {
+      this.store.delete(request.id);
+    }
+  }
+
+  /**
+   * Drop expired codes and tell their agents to ask for a new one
+   */
+  expire(): number {
+    const now = Date.now();
+    const expired = this.store.list((request) => request.expiresAt.getTime() <= now);
+
+    for (const request of expired) {
+      this.store.delete(request.id);
+      this.io?.to(request.socketId).emit('pairing-expired', { code: request.id });
+    }
+
+    if (expired.length > 0) {
+      logger.info('Pairing codes expired', { count: expired.length });
+    }
+    return expired.length;
+  }
+}
+
+export const pairingManager = new PairingManager(
+  createRecordStore<PairingRequest>('pairing-codes', reviveDates('createdAt', 'expiresAt'))
+);
@@ -0,0 +1,234 @@
+import { Server } from 'socket.io';
+import { config } from '../config';
+import { LabelData } from '../types';
+import { agentManager } from './AgentManager';
+import { printDispatcher } from './PrintDispatcher';
+import { printQueueManager } from './PrintQueueManager';
+
+const labelData: LabelData = {
+  productName: 'Борщ',
+  preparationDate: '2026-10-19T10:00:00.000Z',
+  expiryDate: '2026-10-20T10:00:00.000Z',
+  storageMethod: 'охлаждение',
+};
+
+// Socket.IO stand-in recording what was emitted to which room or socket
+const emitted: { to: string; event: string; data: any }[] = [];
+const io = {
+  to: (to: string) => ({ emit: (event: string, data: any) => emitted.push({ to, event, data }) }),
+} as unknown as Server;
+
+const deliveries = (commandId: string) =>
+  emitted.filter((e) => e.event === 'print-command' && e.data.commandId === commandId);
+
+let agentCount = 0;
+const connectAgent = (restaurantId: string) => {
+  agentCount++;
+  return agentManager.register(
+    `agent-${agentCount}`,
+    `socket-${agentCount}`,
+    restaurantId,
+    null,
+    'ABCD1234',
+    [{ id: 'p1', name: 'Zebra', status: 'ready', paperStatus: 'ok' }],
+    '1.0.0'
+  );
+};
+
+const statusOf = (commandId: string) => printQueueManager.getCommand(commandId)?.status;
+
+describe('PrintDispatcher', () => {
+  beforeAll(() => {
+    printDispatcher.attach(io);
+    Object.assign(config.delivery, {
+      ackTimeoutMs: 1000,
+      resultTimeoutMs: 5000,
+      maxAttempts: 3,
+      retryBackoffMs: 100,
+      retryBackoffMaxMs: 1000,
+    });
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    emitted.length = 0;
+  });
+
+  afterEach(() => {
+    for (const agent of agentManager.getLocalAgents()) {
+      agentManager.unregisterBySocketId(agent.socketId);
+    }
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  describe('idempotency', () => {
+    it('returns the original command for a repeated key', async () => {
+      connectAgent('r-idem');
+      const first = await printDispatcher.submit({ labelData, idempotencyKey: 'key-1' }, 'r-idem', 'u1');
+      const second = await printDispatcher.submit({ labelData, idempotencyKey: 'key-1' }, 'r-idem', 'u1');
+
+      expect(first.success).toBe(true);
+      expect(second).toMatchObject({ success: true, duplicate: true, commandId: first.commandId });
+      expect(deliveries(first.commandId)).toHaveLength(1);
+    });
+
+    it('creates one command for concurrent requests with the same key', async () => {
+      connectAgent('r-idem-race');
+      const responses = await Promise.all([
+        printDispatcher.submit({ labelData, idempotencyKey: 'key-3' }, 'r-idem-race', 'u1'),
+        printDispatcher.submit({ labelData, idempotencyKey: 'key-3' }, 'r-idem-race', 'u1'),
+      ]);
+
+      expect(responses.filter((r) => r.duplicate)).toHaveLength(1);
+      expect(responses[1].commandId).toBe(responses[0].commandId);
+      expect(deliveries(responses[0].commandId)).toHaveLength(1);
+    });
+
+    it('frees the key of a refused request', async () => {
+      const refused = await printDispatcher.submit(
+        { labelData, idempotencyKey: 'key-4', targetAgentId: 'agent-gone' },
+        'r-idem-refused',
+        'u1'
+      );
+      const retried = await printDispatcher.submit({ labelData, idempotencyKey: 'key-4' }, 'r-idem-refused', 'u1');
+
+      expect(refused).toMatchObject({ success: false, code: 'AGENT_NOT_FOUND' });
+      expect(retried).toMatchObject({ success: true, status: 'queued' });
+      expect(retried.duplicate).toBeUndefined();
+    });
+
+    it('keeps keys apart per restaurant', async () => {
+      const first = await printDispatcher.submit({ labelData, idempotencyKey: 'key-2' }, 'r-idem-a', 'u1');
+      const other = await printDispatcher.submit({ labelData, idempotencyKey: 'key-2' }, 'r-idem-b', 'u1');
+
+      expect(other.duplicate).toBeUndefined();
+      expect(other.commandId).not.toBe(first.commandId);
+    });
+  });
+
+  describe('delivery retries', () => {
+    it('redelivers a command the agent did not acknowledge', async () => {
+      connectAgent('r-retry');
+      const { commandId } = await printDispatcher.submit({ labelData }, 'r-retry', 'u1');
+      expect(deliveries(commandId)).toHaveLength(1);
+
+      jest.advanceTimersByTime(1000);
+      expect(statusOf(commandId)).toBe('pending');
+
+      jest.advanceTimersByTime(100);
+      expect(deliveries(commandId)).toHaveLength(2);
+      expect(deliveries(commandId)[1].data.attempt).toBe(2);
+      expect(statusOf(commandId)).toBe('printing');
+    });
+
+    it('backs off exponentially and dead-letters after the last attempt', async () => {
+      connectAgent('r-dead');
+      const { commandId } = await printDispatcher.submit({ labelData }, 'r-dead', 'u1');
+
+      // Attempt 2 after 1000 ms ack timeout + 100 ms backoff, attempt 3 after another 1000 + 200
+      jest.advanceTimersByTime(1100);
+      expect(deliveries(commandId)).toHaveLength(2);
+      jest.advanceTimersByTime(1199);
+      expect(deliveries(commandId)).toHaveLength(2);
+      jest.advanceTimersByTime(1);
+      expect(deliveries(commandId)).toHaveLength(3);
+
+      jest.advanceTimersByTime(1000);
+      expect(statusOf(commandId)).toBe('dead-letter');
+      expect(deliveries(commandId)).toHaveLength(3);
+    });
+
+    it('waits for the result deadline once the agent acknowledged', async () => {
+      const agent = connectAgent('r-ack');
+      const { commandId } = await printDispatcher.submit({ labelData }, 'r-ack', 'u1');
+      printDispatcher.acknowledge(commandId, agent.id);
+
+      jest.advanceTimersByTime(4999);
+      expect(statusOf(commandId)).toBe('printing');
+      jest.advanceTimersByTime(1);
+      expect(statusOf(commandId)).toBe('pending');
+    });
+  });
+
+  describe('results', () => {
+    it('completes a command with the result of its agent', async () => {
+      const agent = connectAgent('r-done');
+      const { commandId } = await printDispatcher.submit({ labelData }, 'r-done', 'u1');
+      printDispatcher.acknowledge(commandId, agent.id);
+      printDispatcher.complete(commandId, agent.id, true);
+
+      expect(statusOf(commandId)).toBe('success');
+      expect(emitted).toContainEqual(
+        expect.objectContaining({ to: 'restaurant:r-done', event: 'print-completed' })
+      );
+    });
+
+    it('ignores a late result from an agent the command was taken from', async () => {
+      connectAgent('r-stale');
+      connectAgent('r-stale');
+      const { commandId } = await printDispatcher.submit({ labelData }, 'r-stale', 'u1');
+      const firstAgentId = printQueueManager.getCommand(commandId).agentId;
+
+      // No ack: the retry goes to the other agent
+      jest.advanceTimersByTime(1100);
+      const secondAgentId = printQueueManager.getCommand(commandId).agentId;
+      expect(secondAgentId).not.toBe(firstAgentId);
+
+      printDispatcher.complete(commandId, firstAgentId, false, 'Paper jam');
+      expect(statusOf(commandId)).toBe('printing');
+
+      printDispatcher.complete(commandId, secondAgentId, true);
+      expect(statusOf(commandId)).toBe('success');
+    });
+  });
+
+  describe('recovery after a restart', () => {
+    const recover = (restaurantId: string) =>
+      printDispatcher.recoverInterrupted((command) => command.restaurantId === restaurantId);
+
+    it('fails a printing command of an agent that is gone and reports it', () => {
+      printQueueManager.createCommand('c-gone', 'r-restart', 'u1', 'agent-gone', labelData);
+      printQueueManager.updateStatus('c-gone', 'printing');
+
+      expect(recover('r-restart')).toBe(1);
+      expect(statusOf('c-gone')).toBe('failed');
+      expect(emitted).toContainEqual({
+        to: 'restaurant:r-restart',
+        event: 'print-completed',
+        data: { commandId: 'c-gone', success: false, error: 'Interrupted by server restart' },
+      });
+    });
+
+    it('moves a command awaiting its retry to the offline queue when no agent is online', () => {
+      printQueueManager.createCommand('c-retry', 'r-restart-queue', 'u1', 'agent-gone', labelData);
+
+      recover('r-restart-queue');
+      jest.runOnlyPendingTimers();
+      expect(statusOf('c-retry')).toBe('queued');
+
+      connectAgent('r-restart-queue');
+      expect(printDispatcher.flushQueue('r-restart-queue')).toBe(1);
+      expect(deliveries('c-retry')).toHaveLength(1);
+    });
+  });
+
+  describe('tenant isolation', () => {
+    it('does not send a job to an agent of another restaurant', async () => {
+      const foreign = connectAgent('r-foreign');
+      const response = await printDispatcher.submit({ labelData, targetAgentId: foreign.id }, 'r-mine', 'u1');
+
+      expect(response).toMatchObject({ success: false, code: 'AGENT_NOT_FOUND' });
+      expect(emitted.filter((e) => e.to === foreign.socketId)).toHaveLength(0);
+    });
+
+    it('does not pick agents of another restaurant', async () => {
+      connectAgent('r-foreign');
+      const response = await printDispatcher.submit({ labelData }, 'r-empty', 'u1');
+
+      expect(response.success).toBe(true);
+      expect(statusOf(response.commandId)).toBe('queued');
+      expect(deliveries(response.commandId)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,995 @@
+import { Server } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ConnectedAgent,
+  FieldError,
+  LabelData,
+  PrintBatchRequest,
+  PrintCommand,
+  PrintCommandItem,
+  PrintItemResult,
+  PrintPayload,
+  PrintRequest,
+  PrintResponse,
+  PrinterInfo,
+  PrintRequirements,
+  ReprintRequest,
+} from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { agentManager, getAgentPrinters } from './AgentManager';
+import { printQueueManager, CreateCommandOptions } from './PrintQueueManager';
+import { shelfLifeManager } from './ShelfLifeManager';
+import { agentSelector, getCompatiblePrinters, SelectionContext } from './AgentSelector';
+import { restaurantSettingsManager } from './RestaurantSettingsManager';
+import { stationRoutingManager, isSameStation } from './StationRoutingManager';
+import { webhookManager } from './WebhookManager';
+import { FINAL_STATUSES } from '../storage';
+import { findIncompatibilities, getLayout, renderLabel, resolvePrinterLanguage } from '../labels';
+import { labelDataSchema, validate } from '../validation';
+
+const WAIT_POLL_INTERVAL_MS = 250;
+
+const validationFailed = (details: FieldError[]): PrintResponse => ({
+  success: false,
+  error: 'Validation failed',
+  code: 'VALIDATION_FAILED',
+  details,
+});
+
+/**
+ * What a job needs from the printer: the stated requirements, with the
+ * label size of its layout unless a size is stated
+ */
+const requirementsOf = (layoutId?: string, requirements: PrintRequirements = {}): PrintRequirements => {
+  const layout = getLayout(layoutId || config.labels.defaultLayout);
+  return {
+    ...requirements,
+    labelSize: requirements.labelSize || (layout && { widthMm: layout.widthMm, heightMm: layout.heightMm }),
+  };
+};
+
+const selectionContext = (command: PrintCommand): SelectionContext => ({
+  restaurantId: command.restaurantId,
+  userId: command.userId,
+  layoutId: command.layoutId,
+  labelData: command.labelData,
+  requirements: requirementsOf(command.layoutId, command.requirements),
+});
+
+/**
+ * Whether a command status is final (no further delivery attempts)
+ */
+export const isFinalStatus = (status: PrintCommand['status']): boolean => FINAL_STATUSES.includes(status);
+
+/**
+ * Delivers print commands to agents, holds jobs for restaurants whose
+ * agents are offline and retries deliveries the agent never confirmed.
+ *
+ * Delivery protocol:
+ *   server → agent  `print-command` { commandId, printerId?, labelData, payload, copies, attempt, items? }
+ *   agent → server  `print-ack`     { commandId }                    (within ackTimeoutMs)
+ *   agent → server  `print-result`  { commandId, success, items? }   (within resultTimeoutMs)
+ *   server → agent  `cancel-command` { commandId, reason? }           (job cancelled after sending)
+ *
+ * Batch commands carry `items` ({ index, labelData, copies, payload }) and
+ * are delivered, acknowledged and retried as one unit; the agent reports
+ * each item's outcome in `print-result.items`.
+ *
+ * A missed deadline or a disconnect of the agent counts as a failed attempt.
+ * Failed attempts are retried with exponential backoff, preferring another
+ * agent in the restaurant room. After maxAttempts the command is moved to
+ * the `dead-letter` state.
+ */
+export class PrintDispatcher {
+  private io: Server | null = null;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  /**
+   * Attach the Socket.IO server used to reach agents
+   */
+  attach(io: Server): void {
+    this.io = io;
+  }
+
+  /**
+   * Pick an online agent for a job: at the first station its routing rule
+   * allows (any station if no rule matches), with the restaurant's
+   * selection strategy, avoiding excluded agents if possible. Undefined if
+   * no allowed agent is online.
+   */
+  selectAgent(context: SelectionContext, excludeAgentId?: string | null): ConnectedAgent | undefined {
+    const agents = this.getRoutedAgents(context);
+    const candidates = agents.filter((a) => a.id !== excludeAgentId);
+    return agentSelector.select(
+      candidates.length > 0 ? candidates : agents,
+      context,
+      restaurantSettingsManager.getSelectionStrategy(context.restaurantId)
+    );
+  }
+
+  /**
+   * Accept a validated print request (socket `print-label`, REST `/api/print`):
+   * apply shelf-life rules, then send the job to an agent or hold it in the
+   * offline queue
+   */
+  async submit(
+    request: PrintRequest,
+    restaurantId: string,
+    userId: string,
+    extra: CreateCommandOptions = {}
+  ): Promise<PrintResponse> {
+    const duplicate = this.findDuplicate(restaurantId, request.idempotencyKey);
+    if (duplicate) {
+      return duplicate;
+    }
+
+    const layoutError = this.checkLayout(request.layoutId);
+    if (layoutError) {
+      return layoutError;
+    }
+
+    // Fill in or verify the expiry date from the restaurant's shelf-life rules
+    const shelfLife = shelfLifeManager.apply(restaurantId, request.labelData);
+    if (shelfLife.success === false) {
+      return validationFailed(shelfLife.errors);
+    }
+
+    return this.dispatch(restaurantId, userId, request.targetAgentId, shelfLife.labelData, {
+      layoutId: request.layoutId,
+      printerId: request.printerId,
+      requirements: request.requirements,
+      shelfLife: shelfLife.shelfLife,
+      idempotencyKey: request.idempotencyKey,
+      copies: request.copies,
+      ...extra,
+    });
+  }
+
+  /**
+   * Accept a batch of labels (socket `print-batch`, REST `/api/print/batch`)
+   * as one parent command. The agent receives all items in one
+   * `print-command` and reports their results item by item.
+   */
+  async submitBatch(
+    request: PrintBatchRequest,
+    restaurantId: string,
+    userId: string,
+    extra: CreateCommandOptions = {}
+  ): Promise<PrintResponse> {
+    const duplicate = this.findDuplicate(restaurantId, request.idempotencyKey);
+    if (duplicate) {
+      return duplicate;
+    }
+
+    const layoutError = this.checkLayout(request.layoutId);
+    if (layoutError) {
+      return layoutError;
+    }
+
+    const items: PrintCommandItem[] = [];
+    const errors: FieldError[] = [];
+
+    request.items.forEach((item, index) => {
+      const shelfLife = shelfLifeManager.apply(restaurantId, item.labelData);
+      if (shelfLife.success === false) {
+        errors.push(...shelfLife.errors.map((e) => ({ ...e, field: `items.${index}.${e.field}` })));
+        return;
+      }
+      items.push({
+        labelData: shelfLife.labelData,
+        copies: item.copies || 1,
+        shelfLife: shelfLife.shelfLife,
+        status: 'pending',
+      });
+    });
+
+    if (errors.length > 0) {
+      return validationFailed(errors);
+    }
+
+    return this.dispatch(restaurantId, userId, request.targetAgentId, items[0].labelData, {
+      layoutId: request.layoutId,
+      printerId: request.printerId,
+      requirements: request.requirements,
+      idempotencyKey: request.idempotencyKey,
+      items,
+      ...extra,
+    });
+  }
+
+  /**
+   * Withdraw a job that has not finished yet. If it was already sent, the
+   * agent is told to drop it; a late result from the agent is ignored.
+   */
+  cancel(commandId: string, userId: string, reason?: string): PrintResponse {
+    const command = printQueueManager.getCommand(commandId);
+    if (!command) {
+      return { success: false, error: 'Print command not found', code: 'COMMAND_NOT_FOUND' };
+    }
+    if (isFinalStatus(command.status)) {
+      return {
+        success: false,
+        commandId,
+        status: command.status,
+        error: `Print command is already ${command.status}`,
+        code: 'NOT_CANCELLABLE',
+      };
+    }
+
+    this.clearTimer(commandId);
+    const sentTo = command.status === 'printing' ? command.agentId : null;
+    printQueueManager.markCancelled(commandId, userId, reason);
+
+    const agent = sentTo ? agentManager.getAgent(sentTo) : undefined;
+    if (agent) {
+      this.getServer().to(agent.socketId).emit('cancel-command', { commandId, reason });
+    }
+
+    this.getServer().to(`restaurant:${command.restaurantId}`).emit('print-cancelled', {
+      commandId,
+      cancelledBy: userId,
+      reason,
+    });
+
+    return {
+      success: true,
+      commandId,
+      status: 'cancelled',
+      message: agent ? 'Print command cancelled, agent asked to drop it' : 'Print command cancelled',
+    };
+  }
+
+  /**
+   * Print an earlier command again as a new job linked to it (`reprintOf`).
+   * Field overrides go through validation and shelf-life rules like a new
+   * request; an expiry date the rules computed is computed again.
+   */
+  async reprint(request: ReprintRequest, userId: string): Promise<PrintResponse> {
+    const original = printQueueManager.getCommand(request.commandId);
+    if (!original) {
+      return { success: false, error: 'Print command not found', code: 'COMMAND_NOT_FOUND' };
+    }
+
+    const extra: CreateCommandOptions = { reprintOf: original.id };
+    const common = {
+      restaurantId: original.restaurantId,
+      targetAgentId: request.targetAgentId,
+      printerId: request.printerId,
+      layoutId: request.layoutId || original.layoutId,
+      requirements: request.requirements || original.requirements,
+      idempotencyKey: request.idempotencyKey,
+    };
+
+    // Whole batch again, as it was
+    if (original.items && request.itemIndex === undefined) {
+      if (request.labelData) {
+        return validationFailed([{
+          field: 'labelData',
+          message: 'Overrides need itemIndex when reprinting a batch',
+          code: 'custom',
+        }]);
+      }
+      return this.submitBatch(
+        {
+          ...common,
+          items: original.items.map((item) => ({
+            labelData: this.reprintLabelData(item.labelData, item.shelfLife),
+            copies: item.copies,
+          })),
+        },
+        original.restaurantId,
+        userId,
+        extra
+      );
+    }
+
+    let source: Pick<PrintCommand, 'labelData' | 'copies' | 'shelfLife'> = original;
+    if (request.itemIndex !== undefined) {
+      const item = original.items?.[request.itemIndex];
+      if (!item) {
+        return validationFailed([{
+          field: 'itemIndex',
+          message: 'Print command has no such item',
+          code: 'custom',
+        }]);
+      }
+      source = item;
+    }
+
+    const labelData = validate(labelDataSchema, {
+      ...this.reprintLabelData(source.labelData, source.shelfLife, request.labelData),
+      ...request.labelData,
+    });
+    if (labelData.success === false) {
+      return validationFailed(labelData.errors.map((e) => ({ ...e, field: `labelData.${e.field}` })));
+    }
+
+    return this.submit(
+      { ...common, labelData: labelData.data, copies: request.copies || source.copies },
+      original.restaurantId,
+      userId,
+      extra
+    );
+  }
+
+  /**
+   * Wait until a command reaches a final status (success, failed, dead-letter)
+   * or the timeout passes, and return its latest state. Polls the store, so
+   * results handled by another cluster node are seen too.
+   */
+  async waitForResult(commandId: string, timeoutMs: number): Promise<PrintCommand | undefined> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const command = printQueueManager.getCommand(commandId);
+      if (!command || isFinalStatus(command.status) || Date.now() >= deadline) {
+        return command;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(WAIT_POLL_INTERVAL_MS, Math.max(deadline - Date.now(), 0)))
+      );
+    }
+  }
+
+  /**
+   * Send a command to an agent and wait for its acknowledgement. The job
+   * goes to the printer it was sent to before on this agent, if any,
+   * otherwise to the agent's healthiest printer.
+   */
+  send(command: PrintCommand, agent: ConnectedAgent): void {
+    const printer = agentSelector.selectPrinter(
+      agent,
+      command.agentId === agent.id ? command.printerId : undefined,
+      requirementsOf(command.layoutId, command.requirements)
+    );
+    const attempt = printQueueManager.recordAttempt(command.id, agent.id, printer?.id);
+    if (!attempt) {
+      return;
+    }
+
+    this.getServer().to(agent.socketId).emit('print-command', {
+      commandId: command.id,
+      printerId: printer?.id,
+      labelData: command.labelData,
+      payload: command.items ? undefined : this.render(command, command.labelData, command.copies, printer),
+      copies: command.copies || 1,
+      attempt: attempt.attempts,
+      items: command.items?.map((item, index) => ({
+        index,
+        labelData: item.labelData,
+        copies: item.copies,
+        payload: this.render(command, item.labelData, item.copies, printer),
+      })),
+    });
+
+    printQueueManager.updateStatus(command.id, 'printing');
+
+    this.setTimer(command.id, config.delivery.ackTimeoutMs, () =>
+      this.handleTimeout(command.id, attempt.attempts, 'ack')
+    );
+
+    logger.info('Print command sent to agent', {
+      commandId: command.id,
+      agentId: agent.id,
+      printerId: printer?.id,
+      restaurantId: command.restaurantId,
+      attempt: attempt.attempts,
+    });
+  }
+
+  /**
+   * Agent confirmed it received the command
+   */
+  acknowledge(commandId: string, agentId: string): void {
+    const command = printQueueManager.getCommand(commandId);
+    if (!command || command.status !== 'printing' || command.agentId !== agentId) {
+      logger.debug('Ignoring stale print ack', { commandId, agentId });
+      return;
+    }
+
+    printQueueManager.markAcked(commandId);
+
+    const attempt = command.attempts;
+    this.setTimer(commandId, config.delivery.resultTimeoutMs, () =>
+      this.handleTimeout(commandId, attempt, 'result')
+    );
+
+    logger.debug('Print command acknowledged', { commandId, agentId });
+  }
+
+  /**
+   * Agent reported the outcome of a command. A batch command succeeds only
+   * if every item printed; failed items are listed in `print-completed`.
+   * Results from an agent the command is no longer assigned to (it timed
+   * out and was redelivered, or was cancelled) are ignored.
+   */
+  complete(
+    commandId: string,
+    agentId: string,
+    success: boolean,
+    error?: string,
+    itemResults?: PrintItemResult[]
+  ): void {
+    const command = printQueueManager.getCommand(commandId);
+    if (!command) {
+      return;
+    }
+
+    if (command.status === 'cancelled') {
+      logger.info('Ignoring result of a cancelled print command', { commandId, success });
+      return;
+    }
+
+    if (command.status !== 'printing' || command.agentId !== agentId) {
+      logger.debug('Ignoring stale print result', { commandId, agentId, success });
+      return;
+    }
+
+    this.clearTimer(commandId);
+
+    if (command.items) {
+      const failed = printQueueManager.updateItemStatuses(commandId, success, error, itemResults);
+      success = failed.length === 0;
+      if (!success) {
+        error = `${failed.length} of ${command.items.length} labels failed to print`;
+      }
+    }
+
+    if (success) {
+      printQueueManager.updateStatus(commandId, 'success');
+    } else {
+      printQueueManager.updateStatus(commandId, 'failed', error);
+    }
+
+    const result = {
+      commandId,
+      success,
+      error,
+      items: command.items?.map((item, index) => ({ index, status: item.status, error: item.error })),
+    };
+    this.getServer().to(`restaurant:${command.restaurantId}`).emit('print-completed', result);
+    webhookManager.publish(command.restaurantId, success ? 'print.completed' : 'print.failed', {
+      ...result,
+      agentId: command.agentId,
+      printerId: command.printerId,
+    });
+  }
+
+  /**
+   * Retry everything that was in flight on an agent that went away
+   */
+  handleAgentDisconnect(agentId: string): void {
+    for (const command of printQueueManager.getInFlightCommands(agentId)) {
+      this.clearTimer(command.id);
+      this.scheduleRetry(command, 'Agent disconnected before reporting a result');
+    }
+  }
+
+  /**
+   * Hold a command until an agent for its restaurant comes online.
+   * Returns null if the restaurant queue is full.
+   */
+  enqueue(
+    commandId: string,
+    restaurantId: string,
+    userId: string,
+    labelData: any,
+    options: CreateCommandOptions = {}
+  ): PrintCommand | null {
+    const queued = printQueueManager.getQueuedCommands(restaurantId);
+    if (queued.length >= config.printQueue.maxQueuedPerRestaurant) {
+      logger.warn('Offline print queue is full', {
+        restaurantId,
+        queued: queued.length,
+      });
+      return null;
+    }
+
+    const command = printQueueManager.createCommand(
+      commandId,
+      restaurantId,
+      userId,
+      null,
+      labelData,
+      {
+        ...options,
+        status: 'queued',
+        expiresAt: new Date(Date.now() + config.printQueue.offlineTtlMs),
+      }
+    );
+
+    logger.info('Print command queued until an agent comes online', {
+      commandId,
+      restaurantId,
+      expiresAt: command.expiresAt,
+    });
+
+    return command;
+  }
+
+  /**
+   * Deliver queued commands for a restaurant, oldest first
+   */
+  flushQueue(restaurantId: string): number {
+    const queued = printQueueManager.getQueuedCommands(restaurantId);
+    if (queued.length === 0) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const agentIds = new Set<string>();
+    let delivered = 0;
+
+    for (const command of queued) {
+      if (command.expiresAt && command.expiresAt.getTime() <= now) {
+        this.expire(command);
+        continue;
+      }
+
+      // Selected per command, so a backlog is spread like live traffic
+      // Commands routed to an offline station keep waiting
+      const agent = this.selectAgent(selectionContext(command));
+      if (!agent) {
+        continue;
+      }
+      this.send(command, agent);
+      agentIds.add(agent.id);
+      delivered++;
+    }
+
+    if (delivered === 0) {
+      return 0;
+    }
+
+    logger.info('Offline print queue flushed', {
+      restaurantId,
+      agentIds: Array.from(agentIds),
+      delivered,
+    });
+
+    return delivered;
+  }
+
+  /**
+   * Reconcile in-flight commands whose deadlines and retries were kept by a
+   * node that stopped: this process before a restart or, in cluster mode,
+   * a dead node (the leader takes those over). `isOwned` picks the commands
+   * to handle; commands of live nodes are left to them.
+   *
+   * A `pending` command is retried: it goes to any online agent or waits
+   * in the offline queue. An agent loses its socket with the node it was
+   * connected to, so a `printing` command of an agent no longer online is
+   * failed (it may have printed) through the usual failure path. One whose
+   * agent is still connected to another node gets its ack or result
+   * deadline re-armed for the time left.
+   */
+  recoverInterrupted(isOwned: (command: PrintCommand) => boolean): number {
+    const commands = printQueueManager.getUnfinishedCommands().filter(isOwned);
+    let interrupted = 0;
+
+    for (const command of commands) {
+      if (command.status === 'printing' && (!command.agentId || !agentManager.isOnline(command.agentId))) {
+        this.fail(command, 'failed', 'Interrupted by server restart');
+        interrupted++;
+        continue;
+      }
+
+      printQueueManager.adopt(command.id);
+      if (command.status === 'pending') {
+        this.setTimer(command.id, 0, () => this.retry(command.id));
+        continue;
+      }
+
+      const attempt = command.attempts;
+      const phase = command.ackedAt ? 'result' : 'ack';
+      const deadline = command.ackedAt
+        ? command.ackedAt.getTime() + config.delivery.resultTimeoutMs
+        : (command.lastAttemptAt || command.createdAt).getTime() + config.delivery.ackTimeoutMs;
+      this.setTimer(command.id, Math.max(deadline - Date.now(), 0), () =>
+        this.handleTimeout(command.id, attempt, phase)
+      );
+    }
+
+    if (commands.length > 0) {
+      logger.info('Interrupted print commands recovered', {
+        commands: commands.length,
+        failed: interrupted,
+        adopted: commands.length - interrupted,
+      });
+    }
+    return commands.length;
+  }
+
+  /**
+   * Fail queued commands that waited longer than their TTL
+   */
+  expireQueued(): number {
+    const expired = printQueueManager.getExpiredQueuedCommands();
+    for (const command of expired) {
+      this.expire(command);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Online agents a job may go to according to the station routing rules
+   */
+  private getRoutedAgents(context: SelectionContext): ConnectedAgent[] {
+    const agents = agentManager.getAgentsByRestaurant(context.restaurantId);
+    const stations = stationRoutingManager.resolveStations(context.restaurantId, context.labelData, context.userId);
+    if (!stations) {
+      return agents;
+    }
+
+    for (const station of stations) {
+      const atStation = agents.filter((agent) => isSameStation(agent.station, station));
+      if (atStation.length > 0) {
+        return atStation;
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Label data of a reprint: without the expiry date if shelf-life rules
+   * computed it (so it follows changed preparation dates), unless the
+   * overrides set one
+   */
+  private reprintLabelData(
+    labelData: LabelData,
+    shelfLife?: PrintCommandItem['shelfLife'],
+    overrides: Partial<LabelData> = {}
+  ): LabelData {
+    if (shelfLife?.mode !== 'computed' || overrides.expiryDate) {
+      return labelData;
+    }
+    const { expiryDate, ...rest } = labelData;
+    return rest;
+  }
+
+  /**
+   * A retried request (e.g. after a reconnect) gets the original command back
+   */
+  private findDuplicate(restaurantId: string, idempotencyKey?: string): PrintResponse | null {
+    if (!idempotencyKey) {
+      return null;
+    }
+
+    const commandId = printQueueManager.findByIdempotencyKey(restaurantId, idempotencyKey);
+    return commandId ? this.duplicateOf(commandId, restaurantId, idempotencyKey) : null;
+  }
+
+  private duplicateOf(commandId: string, restaurantId: string, idempotencyKey: string): PrintResponse {
+    logger.info('Duplicate print request ignored', {
+      commandId,
+      restaurantId,
+      idempotencyKey,
+    });
+
+    return {
+      success: true,
+      commandId,
+      status: printQueueManager.getCommand(commandId)?.status,
+      duplicate: true,
+      message: 'Print request already received, returning the original command',
+    };
+  }
+
+  private checkLayout(layoutId?: string): PrintResponse | null {
+    if (layoutId && !getLayout(layoutId)) {
+      return {
+        success: false,
+        error: `Unknown label layout: ${layoutId}`,
+        code: 'UNKNOWN_LAYOUT',
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Create the command once per idempotency key: the key is reserved first
+   * (atomically across cluster nodes, so concurrent retries of a request
+   * create one command) and released if the request is refused
+   */
+  private async dispatch(
+    restaurantId: string,
+    userId: string,
+    targetAgentId: string | undefined,
+    labelData: LabelData,
+    options: CreateCommandOptions
+  ): Promise<PrintResponse> {
+    const commandId = uuidv4();
+    const { idempotencyKey } = options;
+    if (!idempotencyKey) {
+      return this.createAndSend(commandId, restaurantId, userId, targetAgentId, labelData, options);
+    }
+
+    const holder = await printQueueManager.reserveIdempotencyKey(restaurantId, idempotencyKey, commandId);
+    if (holder !== commandId) {
+      return this.duplicateOf(holder, restaurantId, idempotencyKey);
+    }
+
+    const response = this.createAndSend(commandId, restaurantId, userId, targetAgentId, labelData, options);
+    if (!response.success) {
+      printQueueManager.releaseIdempotencyKey(restaurantId, idempotencyKey);
+    }
+    return response;
+  }
+
+  /**
+   * Create the command and send it to the target (or a selected) agent,
+   * or hold it in the offline queue if the restaurant has no agent online
+   */
+  private createAndSend(
+    commandId: string,
+    restaurantId: string,
+    userId: string,
+    targetAgentId: string | undefined,
+    labelData: LabelData,
+    options: CreateCommandOptions
+  ): PrintResponse {
+    const context: SelectionContext = {
+      restaurantId,
+      userId,
+      layoutId: options.layoutId,
+      labelData,
+      requirements: requirementsOf(options.layoutId, options.requirements),
+    };
+
+    let agent: ConnectedAgent | undefined;
+    if (targetAgentId) {
+      agent = agentManager.getAgent(targetAgentId);
+      // Agents of other restaurants are not revealed
+      if (!agent || agent.restaurantId !== restaurantId) {
+        return {
+          success: false,
+          error: 'Target agent not found or offline',
+          code: 'AGENT_NOT_FOUND',
+        };
+      }
+    } else if (options.printerId) {
+      // Printer IDs are per agent: the restaurant's agent that has this printer
+      agent = agentManager
+        .getAgentsByRestaurant(restaurantId)
+        .find((a) => agentManager.getPrinter(a.id, options.printerId));
+    } else {
+      agent = this.selectAgent(context);
+    }
+
+    if (options.printerId && !(agent && agentManager.getPrinter(agent.id, options.printerId))) {
+      return {
+        success: false,
+        error: `Printer ${options.printerId} not found or offline`,
+        code: 'PRINTER_NOT_FOUND',
+      };
+    }
+
+    // A target chosen by the client must fit the job; without a target the
+    // selection only returns nothing if no online printer fits
+    const incompatible = agent
+      ? this.checkCompatibility([agent], context.requirements, options.printerId)
+      : this.checkCompatibility(this.getRoutedAgents(context), context.requirements);
+    if (incompatible) {
+      return incompatible;
+    }
+
+    if (!agent) {
+      // Hold the job until an agent for this restaurant (or its station) comes online
+      const queued = this.enqueue(commandId, restaurantId, userId, labelData, options);
+      const stations = stationRoutingManager.resolveStations(restaurantId, labelData, userId);
+      return queued
+        ? {
+            success: true,
+            commandId,
+            status: 'queued',
+            message: stations
+              ? `No online agents at station ${stations.join(' / ')}, print job queued`
+              : 'No online agents found for this restaurant, print job queued',
+          }
+        : {
+            success: false,
+            error: 'No online agents found for this restaurant and the print queue is full',
+            code: 'QUEUE_FULL',
+          };
+    }
+
+    const command = printQueueManager.createCommand(commandId, restaurantId, userId, agent.id, labelData, options);
+    this.send(command, agent);
+
+    return {
+      success: true,
+      commandId,
+      status: 'printing',
+      message: 'Print command sent to agent',
+    };
+  }
+
+  /**
+   * Refuse a job none of the agents' printers (or the requested printer)
+   * can handle, listing why each printer does not fit. Null if one fits,
+   * or if the agents reported no printers.
+   */
+  private checkCompatibility(
+    agents: ConnectedAgent[],
+    requirements: PrintRequirements,
+    printerId?: string
+  ): PrintResponse | null {
+    const printers = agents.flatMap((agent) =>
+      getAgentPrinters(agent)
+        .filter((printer) => !printerId || printer.id === printerId)
+        .map((printer) => ({ agent, printer }))
+    );
+    if (printers.length === 0) {
+      return null;
+    }
+
+    const fits = (agent: ConnectedAgent, printer: PrinterInfo) =>
+      getCompatiblePrinters(agent, requirements).some((p) => p.id === printer.id);
+    if (printers.some(({ agent, printer }) => fits(agent, printer))) {
+      return null;
+    }
+
+    return {
+      success: false,
+      error: 'No online printer can print this job',
+      code: 'PRINTER_INCOMPATIBLE',
+      details: printers.map(({ agent, printer }) => ({
+        field: 'requirements',
+        message: `${agent.id}/${printer.id}: ${findIncompatibilities(printer, requirements).join(', ')}`,
+        code: 'printer_incompatible',
+      })),
+    };
+  }
+
+  /**
+   * Render the label at send time, in the language of the target printer,
+   * so layout fixes also apply to queued jobs. Agents fall back to their
+   * own layout if rendering fails.
+   */
+  private render(
+    command: PrintCommand,
+    labelData: LabelData,
+    copies: number | undefined,
+    printer: PrinterInfo | undefined
+  ): PrintPayload | undefined {
+    try {
+      return renderLabel(labelData, {
+        layoutId: command.layoutId,
+        language: command.requirements?.language || resolvePrinterLanguage(printer),
+        dpi: printer?.capabilities?.dpi,
+        copies,
+      });
+    } catch (error) {
+      logger.error('Label rendering failed', {
+        commandId: command.id,
+        layoutId: command.layoutId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  private expire(command: PrintCommand): void {
+    const waitedSeconds = Math.round((Date.now() - command.createdAt.getTime()) / 1000);
+    this.fail(command, 'failed', `Print job expired: no agent came online within ${waitedSeconds}s`);
+  }
+
+  private handleTimeout(commandId: string, attempt: number, phase: 'ack' | 'result'): void {
+    this.timers.delete(commandId);
+
+    // The command may have moved on meanwhile - possibly on another cluster
+    // node (ack or result handled where the agent is connected)
+    const command = printQueueManager.getCommand(commandId);
+    if (!command || command.status !== 'printing' || command.attempts !== attempt) {
+      return;
+    }
+    if (phase === 'ack' && command.ackedAt) {
+      return;
+    }
+
+    const reason = phase === 'ack'
+      ? 'Agent did not acknowledge the print command'
+      : 'Agent did not report a print result';
+
+    logger.warn('Print delivery deadline missed', {
+      commandId,
+      agentId: command.agentId,
+      attempt: command.attempts,
+      reason,
+    });
+
+    this.scheduleRetry(command, reason);
+  }
+
+  /**
+   * Retry a failed attempt with exponential backoff or give up
+   */
+  private scheduleRetry(command: PrintCommand, reason: string): void {
+    const attempts = command.attempts || 0;
+
+    if (attempts >= config.delivery.maxAttempts) {
+      this.fail(command, 'dead-letter', `${reason} (gave up after ${attempts} attempts)`);
+      return;
+    }
+
+    const delay = Math.min(
+      config.delivery.retryBackoffMs * 2 ** Math.max(attempts - 1, 0),
+      config.delivery.retryBackoffMaxMs
+    );
+
+    printQueueManager.updateStatus(command.id, 'pending', reason);
+
+    logger.info('Print command retry scheduled', {
+      commandId: command.id,
+      attempt: attempts + 1,
+      delayMs: delay,
+    });
+
+    this.setTimer(command.id, delay, () => this.retry(command.id));
+  }
+
+  private retry(commandId: string): void {
+    this.timers.delete(commandId);
+
+    const command = printQueueManager.getCommand(commandId);
+    if (!command || command.status !== 'pending') {
+      return;
+    }
+
+    const agent = this.selectAgent(selectionContext(command), command.agentId);
+    if (agent) {
+      this.send(command, agent);
+      return;
+    }
+
+    // Nobody online - wait in the offline queue for the next agent
+    printQueueManager.requeue(commandId, new Date(Date.now() + config.printQueue.offlineTtlMs));
+  }
+
+  private fail(command: PrintCommand, status: 'failed' | 'dead-letter', error: string): void {
+    this.clearTimer(command.id);
+    printQueueManager.updateStatus(command.id, status, error);
+
+    this.getServer().to(`restaurant:${command.restaurantId}`).emit('print-completed', {
+      commandId: command.id,
+      success: false,
+      error,
+    });
+    webhookManager.publish(command.restaurantId, 'print.failed', {
+      commandId: command.id,
+      success: false,
+      status,
+      error,
+    });
+
+    logger.warn('Print command failed', {
+      commandId: command.id,
+      restaurantId: command.restaurantId,
+      status,
+      error,
+    });
+  }
+
+  private setTimer(commandId: string, delayMs: number, fn: () => void): void {
+    this.clearTimer(commandId);
+    this.timers.set(commandId, setTimeout(fn, delayMs));
+  }
+
+  private clearTimer(commandId: string): void {
+    const timer = this.timers.get(commandId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(commandId);
+    }
+  }
+
+  private getServer(): Server {
+    if (!this.io) {
+      throw new Error('PrintDispatcher is not attached to a Socket.IO server');
+    }
+    return this.io;
+  }
+}
+
+export const printDispatcher = new PrintDispatcher();
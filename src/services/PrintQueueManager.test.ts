@@ -0,0 +1,74 @@
+import { config } from '../config';
+import { IdempotencyKeyRecord, LabelData } from '../types';
+import { MemoryPrintCommandStore } from '../storage/MemoryPrintCommandStore';
+import { MemoryRecordStore } from '../storage/MemoryRecordStore';
+import { PrintQueueManager } from './PrintQueueManager';
+
+const labelData = { productName: 'Борщ' } as LabelData;
+
+describe('PrintQueueManager idempotency keys', () => {
+  let queue: PrintQueueManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    queue = new PrintQueueManager(new MemoryPrintCommandStore(), new MemoryRecordStore<IdempotencyKeyRecord>(), 5);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createWithKey = async (id: string, idempotencyKey: string): Promise<void> => {
+    expect(await queue.reserveIdempotencyKey('r1', idempotencyKey, id)).toBe(id);
+    queue.createCommand(id, 'r1', 'u1', null, labelData, { idempotencyKey });
+  };
+
+  it('finds a key after its command left the capped history', async () => {
+    await createWithKey('c0', 'k');
+    queue.updateStatus('c0', 'success');
+    for (let i = 1; i <= 20; i++) {
+      jest.advanceTimersByTime(1);
+      queue.createCommand(`c${i}`, 'r1', 'u1', null, labelData);
+      queue.updateStatus(`c${i}`, 'success');
+    }
+
+    expect(queue.getCommand('c0')).toBeUndefined();
+    expect(queue.findByIdempotencyKey('r1', 'k')).toBe('c0');
+    expect(queue.findByIdempotencyKey('r2', 'k')).toBeUndefined();
+  });
+
+  it('forgets a key once the window passed', async () => {
+    await createWithKey('c0', 'k');
+
+    jest.advanceTimersByTime(config.printQueue.idempotencyWindowMs - 1);
+    expect(queue.expireIdempotencyKeys()).toBe(0);
+    expect(queue.findByIdempotencyKey('r1', 'k')).toBe('c0');
+
+    jest.advanceTimersByTime(1);
+    expect(queue.findByIdempotencyKey('r1', 'k')).toBeUndefined();
+    expect(queue.expireIdempotencyKeys()).toBe(1);
+  });
+
+  it('keeps a reserved key for the command that reserved it first', async () => {
+    await createWithKey('c0', 'k');
+
+    expect(await queue.reserveIdempotencyKey('r1', 'k', 'c1')).toBe('c0');
+    expect(await queue.reserveIdempotencyKey('r2', 'k', 'c2')).toBe('c2');
+  });
+
+  it('frees a key released by a refused request', async () => {
+    expect(await queue.reserveIdempotencyKey('r1', 'k', 'c0')).toBe('c0');
+    queue.releaseIdempotencyKey('r1', 'k');
+
+    expect(queue.findByIdempotencyKey('r1', 'k')).toBeUndefined();
+    expect(await queue.reserveIdempotencyKey('r1', 'k', 'c1')).toBe('c1');
+  });
+
+  it('reuses a key whose window passed before it was swept', async () => {
+    await createWithKey('c0', 'k');
+    jest.advanceTimersByTime(config.printQueue.idempotencyWindowMs);
+
+    expect(await queue.reserveIdempotencyKey('r1', 'k', 'c1')).toBe('c1');
+    expect(queue.findByIdempotencyKey('r1', 'k')).toBe('c1');
+  });
+});
@@ -1,12 +1,52 @@
-import { PrintCommand } from '../types';
+import {
+  AppliedShelfLife,
+  IdempotencyKeyRecord,
+  PrintCommand,
+  PrintCommandItem,
+  PrintItemResult,
+  PrintRequirements,
+} from '../types';
 import { logger } from '../utils/logger';
+import { printAckLatency, printJobsCompleted, printJobsCreated, printLatency } from '../utils/metrics';
+import { config } from '../config';
+import { PrintCommandStore, RecordStore, createPrintCommandStore, createRecordStore, reviveDates } from '../storage';
+
+/**
+ * Optional attributes of a new print command
+ */
+export interface CreateCommandOptions {
+  status?: PrintCommand['status'];
+  expiresAt?: Date;
+  layoutId?: string;
+  shelfLife?: AppliedShelfLife;
+  idempotencyKey?: string;
+  copies?: number;
+  items?: PrintCommandItem[];
+  reprintOf?: string;
+  printerId?: string;
+  requirements?: PrintRequirements;
+}
+
+const idempotencyId = (restaurantId: string, idempotencyKey: string): string => `${restaurantId}:${idempotencyKey}`;
 
 /**
  * Manages print command queue and history
  */
 export class PrintQueueManager {
-  private commands: Map<string, PrintCommand> = new Map();
-  private maxHistorySize = 1000; // Keep last 1000 commands
+  private store: PrintCommandStore;
+  // Idempotency keys live apart from the capped history, for the whole window
+  private idempotencyKeys: RecordStore<IdempotencyKeyRecord>;
+  private maxHistorySize: number;
+
+  constructor(
+    store: PrintCommandStore,
+    idempotencyKeys: RecordStore<IdempotencyKeyRecord>,
+    maxHistorySize: number = 1000
+  ) {
+    this.store = store;
+    this.idempotencyKeys = idempotencyKeys;
+    this.maxHistorySize = maxHistorySize;
+  }
 
   /**
    * Create a new print command
@@ -15,8 +55,9 @@ export class PrintQueueManager {
     id: string,
     restaurantId: string,
     userId: string,
-    agentId: string,
-    labelData: any
+    agentId: string | null,
+    labelData: any,
+    options: CreateCommandOptions = {}
   ): PrintCommand {
     const command: PrintCommand = {
       id,
@@ -24,14 +65,26 @@ export class PrintQueueManager {
       userId,
       agentId,
       labelData,
-      status: 'pending',
+      status: options.status || 'pending',
       createdAt: new Date(),
+      expiresAt: options.expiresAt,
+      layoutId: options.layoutId,
+      shelfLife: options.shelfLife,
+      idempotencyKey: options.idempotencyKey,
+      copies: options.copies,
+      items: options.items,
+      reprintOf: options.reprintOf,
+      printerId: options.printerId,
+      requirements: options.requirements,
+      nodeId: config.cluster.nodeId,
     };
 
-    this.commands.set(id, command);
+    this.store.save(command);
+    printJobsCreated.inc({ restaurant: restaurantId });
 
-    // Cleanup if history gets too large
-    if (this.commands.size > this.maxHistorySize) {
+    // Cleanup if history gets too large (10% slack so durable stores
+    // don't rewrite themselves on every new command)
+    if (this.store.count() > this.maxHistorySize * 1.1) {
       this.cleanup();
     }
 
@@ -39,6 +92,7 @@ export class PrintQueueManager {
       commandId: id,
       restaurantId,
       agentId,
+      status: command.status,
     });
 
     return command;
@@ -52,15 +106,17 @@ export class PrintQueueManager {
     status: PrintCommand['status'],
     error?: string
   ): void {
-    const command = this.commands.get(commandId);
+    const command = this.store.get(commandId);
     if (command) {
       command.status = status;
       if (error) {
         command.error = error;
       }
-      if (status === 'success' || status === 'failed') {
+      if (status === 'success' || status === 'failed' || status === 'dead-letter' || status === 'cancelled') {
         command.completedAt = new Date();
+        this.recordCompletion(command);
       }
+      this.store.save(command);
       logger.info('Print command status updated', {
         commandId,
         status,
@@ -73,68 +129,289 @@ export class PrintQueueManager {
    * Get command by ID
    */
   getCommand(commandId: string): PrintCommand | undefined {
-    return this.commands.get(commandId);
+    return this.store.get(commandId);
+  }
+
+  /**
+   * Mark a command as cancelled by a user
+   */
+  markCancelled(commandId: string, cancelledBy: string, reason?: string): PrintCommand | undefined {
+    const command = this.store.get(commandId);
+    if (command) {
+      command.status = 'cancelled';
+      command.cancelledAt = new Date();
+      command.cancelledBy = cancelledBy;
+      command.completedAt = command.cancelledAt;
+      command.error = reason;
+      this.recordCompletion(command);
+      this.store.save(command);
+      logger.info('Print command cancelled', { commandId, cancelledBy, reason });
+    }
+    return command;
+  }
+
+  /**
+   * Record the outcome of each item of a batch command. Items the agent did
+   * not report individually take the overall result. Returns the failed items.
+   */
+  updateItemStatuses(
+    commandId: string,
+    success: boolean,
+    error?: string,
+    results: PrintItemResult[] = []
+  ): PrintCommandItem[] {
+    const command = this.store.get(commandId);
+    if (!command?.items) {
+      return [];
+    }
+
+    command.items.forEach((item, index) => {
+      const result = results.find((r) => r.index === index);
+      item.status = (result ? result.success : success) ? 'success' : 'failed';
+      item.error = item.status === 'failed' ? (result?.error || error) : undefined;
+    });
+    this.store.save(command);
+
+    return command.items.filter((item) => item.status === 'failed');
+  }
+
+  /**
+   * ID of a restaurant's command created with an idempotency key within the
+   * window. The command itself may already be gone from the history.
+   */
+  findByIdempotencyKey(restaurantId: string, idempotencyKey: string): string | undefined {
+    const record = this.idempotencyKeys.get(idempotencyId(restaurantId, idempotencyKey));
+    return record && record.expiresAt.getTime() > Date.now() ? record.commandId : undefined;
+  }
+
+  /**
+   * Reserve an idempotency key for a command about to be created. Resolves
+   * to the ID of the command holding the key: `commandId` if the key was
+   * free, otherwise the command of a request (possibly handled by another
+   * cluster node) that reserved it first.
+   */
+  async reserveIdempotencyKey(restaurantId: string, idempotencyKey: string, commandId: string): Promise<string> {
+    const windowMs = config.printQueue.idempotencyWindowMs;
+    const record: IdempotencyKeyRecord = {
+      id: idempotencyId(restaurantId, idempotencyKey),
+      commandId,
+      expiresAt: new Date(Date.now() + windowMs),
+    };
+
+    const holder = await this.idempotencyKeys.saveIfAbsent(record, windowMs);
+    if (holder.commandId !== commandId && holder.expiresAt.getTime() <= Date.now()) {
+      // Left from an earlier window and not swept yet
+      this.idempotencyKeys.save(record);
+      return commandId;
+    }
+    return holder.commandId;
+  }
+
+  /**
+   * Free a key reserved for a command that was not created after all
+   */
+  releaseIdempotencyKey(restaurantId: string, idempotencyKey: string): void {
+    this.idempotencyKeys.delete(idempotencyId(restaurantId, idempotencyKey));
+  }
+
+  /**
+   * Forget idempotency keys whose window passed
+   */
+  expireIdempotencyKeys(): number {
+    const now = Date.now();
+    const expired = this.idempotencyKeys.list((record) => record.expiresAt.getTime() <= now);
+    for (const record of expired) {
+      this.idempotencyKeys.delete(record.id);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Record a new delivery attempt of a command to an agent and its printer
+   */
+  recordAttempt(commandId: string, agentId: string, printerId?: string): PrintCommand | undefined {
+    const command = this.store.get(commandId);
+    if (command) {
+      command.agentId = agentId;
+      command.printerId = printerId;
+      command.attempts = (command.attempts || 0) + 1;
+      command.lastAttemptAt = new Date();
+      command.ackedAt = undefined;
+      command.nodeId = config.cluster.nodeId;
+      this.store.save(command);
+    }
+    return command;
+  }
+
+  /**
+   * Mark the current delivery attempt as acknowledged by the agent
+   */
+  markAcked(commandId: string): void {
+    const command = this.store.get(commandId);
+    if (command) {
+      command.ackedAt = new Date();
+      if (command.lastAttemptAt) {
+        printAckLatency.observe((command.ackedAt.getTime() - command.lastAttemptAt.getTime()) / 1000);
+      }
+      this.store.save(command);
+    }
+  }
+
+  /**
+   * Put a command back into the offline queue
+   */
+  requeue(commandId: string, expiresAt: Date): void {
+    const command = this.store.get(commandId);
+    if (command) {
+      command.status = 'queued';
+      command.agentId = null;
+      command.expiresAt = expiresAt;
+      this.store.save(command);
+      logger.info('Print command requeued', { commandId, expiresAt });
+    }
+  }
+
+  /**
+   * Get commands that are sent to an agent but not finished yet
+   */
+  getInFlightCommands(agentId?: string): PrintCommand[] {
+    return this.store
+      .list({ status: 'printing' })
+      .filter((cmd) => !agentId || cmd.agentId === agentId);
+  }
+
+  /**
+   * Number of unfinished commands assigned to an agent (sent or awaiting retry)
+   */
+  getOutstandingCount(agentId: string): number {
+    return this.store
+      .list({ status: ['pending', 'printing'] })
+      .filter((cmd) => cmd.agentId === agentId).length;
+  }
+
+  /**
+   * Get commands that exhausted their delivery attempts
+   */
+  getDeadLetterCommands(restaurantId?: string, limit: number = 50): PrintCommand[] {
+    return this.store.list({ restaurantId, status: 'dead-letter', limit });
+  }
+
+  /**
+   * Get queued commands for a restaurant, oldest first (delivery order)
+   */
+  getQueuedCommands(restaurantId: string): PrintCommand[] {
+    return this.store.list({ restaurantId, status: 'queued' }).reverse();
+  }
+
+  /**
+   * Get queued commands whose deadline has passed
+   */
+  getExpiredQueuedCommands(now: Date = new Date()): PrintCommand[] {
+    return this.store
+      .list({ status: 'queued' })
+      .filter((cmd) => cmd.expiresAt && cmd.expiresAt.getTime() <= now.getTime());
   }
 
   /**
    * Get recent commands
    */
   getRecentCommands(limit: number = 50): PrintCommand[] {
-    const commands = Array.from(this.commands.values());
-    return commands
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-      .slice(0, limit);
+    return this.store.list({ limit });
   }
 
   /**
    * Get commands by restaurant
    */
   getCommandsByRestaurant(restaurantId: string, limit: number = 50): PrintCommand[] {
-    const commands = Array.from(this.commands.values()).filter(
-      (cmd) => cmd.restaurantId === restaurantId
-    );
-    return commands
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-      .slice(0, limit);
+    return this.store.list({ restaurantId, limit });
   }
 
   /**
-   * Get statistics
+   * Get statistics, optionally of some restaurants only
    */
-  getStats(): {
+  getStats(restaurantIds?: string[]): {
     total: number;
+    queued: number;
     pending: number;
     printing: number;
     success: number;
     failed: number;
+    deadLetter: number;
+    cancelled: number;
   } {
-    const commands = Array.from(this.commands.values());
+    const commands = this.store.list().filter((c) => !restaurantIds || restaurantIds.includes(c.restaurantId));
     return {
       total: commands.length,
+      queued: commands.filter((c) => c.status === 'queued').length,
       pending: commands.filter((c) => c.status === 'pending').length,
       printing: commands.filter((c) => c.status === 'printing').length,
       success: commands.filter((c) => c.status === 'success').length,
       failed: commands.filter((c) => c.status === 'failed').length,
+      deadLetter: commands.filter((c) => c.status === 'dead-letter').length,
+      cancelled: commands.filter((c) => c.status === 'cancelled').length,
     };
   }
 
+  /**
+   * Load history from the store
+   */
+  async initialize(): Promise<void> {
+    if (this.store.open) {
+      await this.store.open();
+    }
+  }
+
+  /**
+   * Commands sent to an agent or awaiting a retry
+   */
+  getUnfinishedCommands(): PrintCommand[] {
+    return this.store.list({ status: ['pending', 'printing'] });
+  }
+
+  /**
+   * Take over the deadlines and retries of a command on this node
+   */
+  adopt(commandId: string): void {
+    const command = this.store.get(commandId);
+    if (command) {
+      command.nodeId = config.cluster.nodeId;
+      this.store.save(command);
+    }
+  }
+
+  /**
+   * Flush the underlying store
+   */
+  close(): void {
+    this.store.close();
+  }
+
   /**
    * Cleanup old commands
    */
   private cleanup(): void {
-    const commands = Array.from(this.commands.entries());
-    const sorted = commands.sort(
-      ([, a], [, b]) => b.createdAt.getTime() - a.createdAt.getTime()
-    );
-
-    // Keep only the most recent commands
-    const toKeep = sorted.slice(0, this.maxHistorySize);
-    this.commands = new Map(toKeep);
+    // Keep only the most recent finished commands
+    const removed = this.store.prune(this.maxHistorySize);
 
     logger.debug('Print queue cleanup completed', {
-      commandsRemaining: this.commands.size,
+      commandsRemoved: removed,
+      commandsRemaining: this.store.count(),
+    });
+  }
+
+  /**
+   * Count a finished command and its end-to-end latency
+   */
+  private recordCompletion(command: PrintCommand): void {
+    printJobsCompleted.inc({ restaurant: command.restaurantId, status: command.status });
+    printLatency.observe((command.completedAt.getTime() - command.createdAt.getTime()) / 1000, {
+      status: command.status,
     });
   }
 }
 
-export const printQueueManager = new PrintQueueManager();
+export const printQueueManager = new PrintQueueManager(
+  createPrintCommandStore(),
+  createRecordStore<IdempotencyKeyRecord>('idempotency-keys', reviveDates('expiresAt'), { journal: true }),
+  config.storage.maxPrintHistory
+);
@@ -0,0 +1,38 @@
+import { config } from '../config';
+import { PrinterAlert } from '../types';
+import { MemoryRecordStore } from '../storage/MemoryRecordStore';
+import { PrinterAlertManager } from './PrinterAlertManager';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const alert = (id: string, status: PrinterAlert['status'], ageDays: number): PrinterAlert => ({
+  id,
+  restaurantId: 'r1',
+  agentId: 'agent-1',
+  printerId: 'p1',
+  printerName: 'Zebra',
+  type: 'paper-out',
+  severity: 'critical',
+  status,
+  message: 'Printer Zebra is out of labels',
+  createdAt: new Date(Date.now() - ageDays * DAY_MS - 1000),
+  resolvedAt: status === 'resolved' ? new Date(Date.now() - ageDays * DAY_MS) : undefined,
+});
+
+describe('PrinterAlertManager history', () => {
+  it('drops resolved alerts past the retention period and keeps open ones', () => {
+    const store = new MemoryRecordStore<PrinterAlert>();
+    const manager = new PrinterAlertManager(store);
+    const retention = config.printerAlerts.retentionDays;
+
+    store.save(alert('old-resolved', 'resolved', retention + 1));
+    store.save(alert('recent-resolved', 'resolved', retention - 1));
+    store.save(alert('old-active', 'active', retention + 1));
+    store.save(alert('old-acknowledged', 'acknowledged', retention + 1));
+
+    expect(manager.expire()).toBe(1);
+    expect(manager.getAlerts('r1').map((a) => a.id).sort()).toEqual(
+      ['old-acknowledged', 'old-active', 'recent-resolved']
+    );
+  });
+});
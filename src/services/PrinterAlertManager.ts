@@ -0,0 +1,280 @@
+import { Server } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { ConnectedAgent, PrinterAlert, PrinterAlertType, PrinterInfo } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { RecordStore, createRecordStore, reviveDates } from '../storage';
+import { getAgentPrinters } from './AgentManager';
+import { webhookManager } from './WebhookManager';
+
+const ALERT_TYPES: PrinterAlertType[] = ['paper-low', 'paper-out', 'printer-error'];
+
+const SEVERITY: Record<PrinterAlertType, PrinterAlert['severity']> = {
+  'paper-low': 'warning',
+  'paper-out': 'critical',
+  'printer-error': 'critical',
+};
+
+const isPresent = (type: PrinterAlertType, printer: PrinterInfo): boolean => {
+  switch (type) {
+    case 'paper-low':
+      return printer.paperStatus === 'low';
+    case 'paper-out':
+      return printer.paperStatus === 'out';
+    case 'printer-error':
+      return printer.status === 'error';
+  }
+};
+
+const describe = (type: PrinterAlertType, printerName: string): string => {
+  switch (type) {
+    case 'paper-low':
+      return `Printer ${printerName} is running low on labels`;
+    case 'paper-out':
+      return `Printer ${printerName} is out of labels`;
+    case 'printer-error':
+      return `Printer ${printerName} reports an error`;
+  }
+};
+
+// Agents get a new ID on every connection, so printers are identified by
+// restaurant, station and printer ID
+const printerIdentity = (restaurantId: string, station: string | undefined, printerId: string): string =>
+  `${restaurantId}:${station || ''}:${printerId}`;
+
+/**
+ * Watches printer states reported by agents and raises alerts on the
+ * transitions managers need to act on: paper ok → low, low → out and
+ * ready → error.
+ *
+ * A condition must hold for `printerAlerts.debounceMs` before an alert is
+ * raised, and be gone as long before the alert is resolved, so a flapping
+ * paper sensor does not flood the restaurant. Every raised, acknowledged
+ * and resolved alert is emitted as `printer-alert` to the restaurant room
+ * and published as the `printer.alert` webhook.
+ */
+export class PrinterAlertManager {
+  private io: Server | null = null;
+  private store: RecordStore<PrinterAlert>;
+  // Debounced state of each condition, keyed by printer identity and type
+  private conditions: Map<string, boolean> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  // Latest printer state, read when a debounce timer fires
+  private printers: Map<string, { agent: ConnectedAgent; printer: PrinterInfo }> = new Map();
+
+  constructor(store: RecordStore<PrinterAlert>) {
+    this.store = store;
+  }
+
+  /**
+   * Attach the Socket.IO server used to notify restaurants
+   */
+  attach(io: Server): void {
+    this.io = io;
+  }
+
+  /**
+   * Check the printers of an agent after it registered or reported status
+   */
+  observe(agent: ConnectedAgent): void {
+    if (!agent.restaurantId) {
+      return;
+    }
+
+    for (const printer of getAgentPrinters(agent)) {
+      const printerKey = printerIdentity(agent.restaurantId, agent.station, printer.id);
+      this.printers.set(printerKey, { agent, printer });
+
+      for (const type of ALERT_TYPES) {
+        const key = `${printerKey}:${type}`;
+        if (!this.conditions.has(key)) {
+          // First report since startup or a reconnect: an open alert means the condition held
+          this.conditions.set(key, this.findOpen(printerKey, type).length > 0);
+        }
+
+        if (isPresent(type, printer) === this.conditions.get(key)) {
+          // Flapped back before the debounce window passed
+          this.clearTimer(key);
+        } else if (!this.timers.has(key)) {
+          this.timers.set(key, setTimeout(() => this.settle(printerKey, type), config.printerAlerts.debounceMs));
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop tracking the printers of an agent that disconnected. Their open
+   * alerts stay open: the agent that reconnects for the printer picks them
+   * up and resolves them once the condition clears, or someone resolves
+   * them by hand.
+   */
+  forgetAgent(agentId: string): void {
+    for (const [printerKey, state] of Array.from(this.printers.entries())) {
+      if (state.agent.id !== agentId) {
+        continue;
+      }
+
+      this.printers.delete(printerKey);
+      for (const type of ALERT_TYPES) {
+        this.conditions.delete(`${printerKey}:${type}`);
+        this.clearTimer(`${printerKey}:${type}`);
+      }
+    }
+  }
+
+  /**
+   * Get alert by ID
+   */
+  getAlert(id: string): PrinterAlert | undefined {
+    return this.store.get(id);
+  }
+
+  /**
+   * Alert history of a restaurant, newest first
+   */
+  getAlerts(restaurantId: string, status?: PrinterAlert['status'], limit: number = 100): PrinterAlert[] {
+    return this.store
+      .list((alert) => alert.restaurantId === restaurantId && (!status || alert.status === status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Acknowledge an alert (someone is on it). Returns undefined if it does
+   * not exist and null if it is already resolved.
+   */
+  acknowledge(id: string, userId: string): PrinterAlert | null | undefined {
+    const alert = this.store.get(id);
+    if (!alert) {
+      return undefined;
+    }
+    if (alert.status === 'resolved') {
+      return null;
+    }
+
+    const updated: PrinterAlert = {
+      ...alert,
+      status: 'acknowledged',
+      acknowledgedAt: new Date(),
+      acknowledgedBy: userId,
+    };
+    this.save(updated, 'Printer alert acknowledged');
+    return updated;
+  }
+
+  /**
+   * Resolve an alert by hand. Returns undefined if it does not exist and
+   * null if it is already resolved. The same condition raises a new alert
+   * only after it cleared and came back.
+   */
+  resolve(id: string, userId: string): PrinterAlert | null | undefined {
+    const alert = this.store.get(id);
+    if (!alert) {
+      return undefined;
+    }
+    if (alert.status === 'resolved') {
+      return null;
+    }
+
+    const updated: PrinterAlert = { ...alert, status: 'resolved', resolvedAt: new Date(), resolvedBy: userId };
+    this.save(updated, 'Printer alert resolved');
+    return updated;
+  }
+
+  /**
+   * Drop resolved alerts older than the retention period from the history
+   */
+  expire(): number {
+    const cutoff = Date.now() - config.printerAlerts.retentionDays * 24 * 60 * 60 * 1000;
+    const expired = this.store.list((alert) => alert.status === 'resolved' && alert.resolvedAt.getTime() < cutoff);
+    for (const alert of expired) {
+      this.store.delete(alert.id);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Debounce window passed: raise or resolve if the condition still differs
+   */
+  private settle(printerKey: string, type: PrinterAlertType): void {
+    const key = `${printerKey}:${type}`;
+    this.timers.delete(key);
+
+    const state = this.printers.get(printerKey);
+    if (!state) {
+      return;
+    }
+
+    const present = isPresent(type, state.printer);
+    if (present === (this.conditions.get(key) || false)) {
+      return;
+    }
+    this.conditions.set(key, present);
+
+    if (present) {
+      this.raise(state.agent, state.printer, type);
+    } else {
+      for (const alert of this.findOpen(printerKey, type)) {
+        this.save({ ...alert, status: 'resolved', resolvedAt: new Date(), resolvedBy: 'system' }, 'Printer alert cleared');
+      }
+    }
+  }
+
+  private raise(agent: ConnectedAgent, printer: PrinterInfo, type: PrinterAlertType): void {
+    const printerName = printer.name || printer.id;
+    const alert: PrinterAlert = {
+      id: uuidv4(),
+      restaurantId: agent.restaurantId,
+      agentId: agent.id,
+      printerId: printer.id,
+      printerName,
+      station: agent.station,
+      type,
+      severity: SEVERITY[type],
+      status: 'active',
+      message: describe(type, printerName),
+      createdAt: new Date(),
+    };
+    this.save(alert, 'Printer alert raised');
+  }
+
+  private findOpen(printerKey: string, type: PrinterAlertType): PrinterAlert[] {
+    return this.store.list(
+      (alert) =>
+        alert.type === type &&
+        alert.status !== 'resolved' &&
+        printerIdentity(alert.restaurantId, alert.station, alert.printerId) === printerKey
+    );
+  }
+
+  private save(alert: PrinterAlert, event: string): void {
+    this.store.save(alert);
+    this.io?.to(`restaurant:${alert.restaurantId}`).emit('printer-alert', alert);
+    webhookManager.publish(alert.restaurantId, 'printer.alert', alert);
+
+    logger.info(event, {
+      alertId: alert.id,
+      restaurantId: alert.restaurantId,
+      agentId: alert.agentId,
+      printerId: alert.printerId,
+      type: alert.type,
+      status: alert.status,
+    });
+  }
+
+  private clearTimer(key: string): void {
+    const timer = this.timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(key);
+    }
+  }
+}
+
+export const printerAlertManager = new PrinterAlertManager(
+  createRecordStore<PrinterAlert>(
+    'printer-alerts',
+    reviveDates('createdAt', 'acknowledgedAt', 'resolvedAt'),
+    { journal: true }
+  )
+);
@@ -0,0 +1,67 @@
+import { AgentSelectionStrategyName, RestaurantSettings } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { RecordStore, createRecordStore, reviveDates } from '../storage';
+
+/**
+ * Editable restaurant settings
+ */
+export type RestaurantSettingsInput = Partial<Omit<RestaurantSettings, 'id' | 'updatedBy' | 'updatedAt'>>;
+
+/**
+ * Per-restaurant print settings; restaurants without a record use the
+ * server defaults from config
+ */
+export class RestaurantSettingsManager {
+  private store: RecordStore<RestaurantSettings>;
+
+  constructor(store: RecordStore<RestaurantSettings>) {
+    this.store = store;
+  }
+
+  /**
+   * Get stored settings of a restaurant
+   */
+  getSettings(restaurantId: string): RestaurantSettings | undefined {
+    return this.store.get(restaurantId);
+  }
+
+  /**
+   * Update settings of a restaurant. Fields set to null fall back to the default.
+   */
+  updateSettings(restaurantId: string, changes: RestaurantSettingsInput, updatedBy: string): RestaurantSettings {
+    const settings: RestaurantSettings = {
+      ...this.store.get(restaurantId),
+      ...changes,
+      id: restaurantId,
+      updatedBy,
+      updatedAt: new Date(),
+    };
+
+    for (const key of Object.keys(settings) as Array<keyof RestaurantSettings>) {
+      if (settings[key] === null) {
+        delete settings[key];
+      }
+    }
+
+    this.store.save(settings);
+
+    logger.info('Restaurant settings updated', { restaurantId, changes, updatedBy });
+
+    return settings;
+  }
+
+  /**
+   * Agent selection strategy of a restaurant
+   */
+  getSelectionStrategy(restaurantId: string): AgentSelectionStrategyName {
+    return (
+      this.store.get(restaurantId)?.agentSelectionStrategy ||
+      (config.agentSelection.defaultStrategy as AgentSelectionStrategyName)
+    );
+  }
+}
+
+export const restaurantSettingsManager = new RestaurantSettingsManager(
+  createRecordStore<RestaurantSettings>('restaurant-settings', reviveDates('updatedAt'))
+);
@@ -0,0 +1,257 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AppliedShelfLife, FieldError, LabelData, ShelfLifeRule } from '../types';
+import { logger } from '../utils/logger';
+import { RecordStore, createRecordStore, reviveDates } from '../storage';
+
+/**
+ * Editable attributes of a shelf-life rule
+ */
+export type ShelfLifeRuleInput = Pick<
+  ShelfLifeRule,
+  'productName' | 'category' | 'storageMethod' | 'shelfLifeHours' | 'description'
+>;
+
+/**
+ * Outcome of applying shelf-life rules to label data
+ */
+export type ShelfLifeResult =
+  | { success: true; labelData: LabelData; shelfLife?: AppliedShelfLife }
+  | { success: false; errors: FieldError[] };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const HAS_ZONE = /(?:Z|[+-]\d{2}:?\d{2})$/;
+
+const normalize = (value?: string): string => (value || '').trim().toLowerCase();
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Instant of a label date. Dates without a zone are wall-clock times of the
+ * kitchen and are handled as UTC, so arithmetic never crosses DST shifts.
+ * A date-only value stands for the whole day when endOfDay is set
+ * ("good until 15.01" means until the end of that day).
+ */
+const toInstant = (value: string, endOfDay = false): number => {
+  if (DATE_ONLY.test(value)) {
+    return Date.parse(`${value}T00:00:00Z`) + (endOfDay ? DAY_MS - 1 : 0);
+  }
+  return Date.parse(HAS_ZONE.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+};
+
+/**
+ * Expiry date for a preparation date, in the same style as the input
+ */
+export const computeExpiryDate = (preparationDate: string, shelfLifeHours: number): string => {
+  const value = preparationDate.trim();
+  const expiry = new Date(toInstant(value) + shelfLifeHours * HOUR_MS);
+
+  if (HAS_ZONE.test(value)) {
+    return expiry.toISOString();
+  }
+
+  const date = `${expiry.getUTCFullYear()}-${pad(expiry.getUTCMonth() + 1)}-${pad(expiry.getUTCDate())}`;
+  if (DATE_ONLY.test(value) && shelfLifeHours % 24 === 0) {
+    return date;
+  }
+  return `${date}T${pad(expiry.getUTCHours())}:${pad(expiry.getUTCMinutes())}`;
+};
+
+/**
+ * Per-restaurant shelf-life rules. The server fills in or verifies
+ * `expiryDate` of every label from these rules, so all devices of a
+ * restaurant follow the same food-safety policy.
+ *
+ * Rule precedence for a label: product name, then category, then the
+ * restaurant default - each for the label's storage method.
+ */
+export class ShelfLifeManager {
+  private store: RecordStore<ShelfLifeRule>;
+
+  constructor(store: RecordStore<ShelfLifeRule>) {
+    this.store = store;
+  }
+
+  /**
+   * Get rule by ID
+   */
+  getRule(id: string): ShelfLifeRule | undefined {
+    return this.store.get(id);
+  }
+
+  /**
+   * Get rules of a restaurant
+   */
+  getRules(restaurantId: string): ShelfLifeRule[] {
+    return this.store
+      .list((rule) => rule.restaurantId === restaurantId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Create a rule. Returns null if the restaurant already has a rule
+   * for the same product, category and storage method.
+   */
+  createRule(restaurantId: string, input: ShelfLifeRuleInput, createdBy: string): ShelfLifeRule | null {
+    if (this.findDuplicate(restaurantId, input)) {
+      return null;
+    }
+
+    const now = new Date();
+    const rule: ShelfLifeRule = {
+      id: uuidv4(),
+      restaurantId,
+      productName: input.productName,
+      category: input.category,
+      storageMethod: input.storageMethod,
+      shelfLifeHours: input.shelfLifeHours,
+      description: input.description,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.store.save(rule);
+
+    logger.info('Shelf-life rule created', {
+      ruleId: rule.id,
+      restaurantId,
+      productName: rule.productName,
+      category: rule.category,
+      storageMethod: rule.storageMethod,
+      shelfLifeHours: rule.shelfLifeHours,
+    });
+
+    return rule;
+  }
+
+  /**
+   * Update a rule. Returns undefined if it does not exist and null if the
+   * change would duplicate another rule.
+   */
+  updateRule(id: string, changes: Partial<ShelfLifeRuleInput>): ShelfLifeRule | null | undefined {
+    const rule = this.store.get(id);
+    if (!rule) {
+      return undefined;
+    }
+
+    const updated: ShelfLifeRule = { ...rule, ...changes, updatedAt: new Date() };
+    const duplicate = this.findDuplicate(rule.restaurantId, updated);
+    if (duplicate && duplicate.id !== id) {
+      return null;
+    }
+
+    this.store.save(updated);
+
+    logger.info('Shelf-life rule updated', {
+      ruleId: id,
+      restaurantId: rule.restaurantId,
+      changes,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Delete a rule
+   */
+  deleteRule(id: string): boolean {
+    const deleted = this.store.delete(id);
+    if (deleted) {
+      logger.info('Shelf-life rule deleted', { ruleId: id });
+    }
+    return deleted;
+  }
+
+  /**
+   * Find the most specific rule for a label
+   */
+  findRule(restaurantId: string, labelData: LabelData): ShelfLifeRule | undefined {
+    const productName = normalize(labelData.productName);
+    const category = normalize(labelData.category);
+
+    const candidates = this.getRules(restaurantId).filter(
+      (rule) =>
+        rule.storageMethod === labelData.storageMethod &&
+        (!rule.productName || normalize(rule.productName) === productName) &&
+        (!rule.category || normalize(rule.category) === category)
+    );
+
+    const specificity = (rule: ShelfLifeRule) => (rule.productName ? 2 : 0) + (rule.category ? 1 : 0);
+    return candidates.sort((a, b) => specificity(b) - specificity(a))[0];
+  }
+
+  /**
+   * Fill in or verify the expiry date of a label.
+   *
+   * - no expiryDate: computed from preparationDate by the matching rule
+   * - expiryDate given: accepted if it is not later than the rule allows
+   * - no matching rule: the client's expiryDate is kept, and required
+   */
+  apply(restaurantId: string, labelData: LabelData): ShelfLifeResult {
+    const rule = this.findRule(restaurantId, labelData);
+
+    if (!rule) {
+      if (!labelData.expiryDate) {
+        return {
+          success: false,
+          errors: [{
+            field: 'labelData.expiryDate',
+            message: 'No shelf-life rule matches this product, expiryDate is required',
+            code: 'shelf_life_rule_missing',
+          }],
+        };
+      }
+      return { success: true, labelData };
+    }
+
+    const allowed = computeExpiryDate(labelData.preparationDate, rule.shelfLifeHours);
+
+    if (!labelData.expiryDate) {
+      return {
+        success: true,
+        labelData: { ...labelData, expiryDate: allowed },
+        shelfLife: { ruleId: rule.id, shelfLifeHours: rule.shelfLifeHours, expiryDate: allowed, mode: 'computed' },
+      };
+    }
+
+    if (toInstant(labelData.expiryDate, true) > toInstant(allowed, true)) {
+      logger.warn('Label expiry date exceeds shelf-life rule', {
+        restaurantId,
+        ruleId: rule.id,
+        productName: labelData.productName,
+        expiryDate: labelData.expiryDate,
+        allowed,
+      });
+      return {
+        success: false,
+        errors: [{
+          field: 'labelData.expiryDate',
+          message: `Expiry date exceeds the shelf life of ${rule.shelfLifeHours}h, latest allowed is ${allowed}`,
+          code: 'shelf_life_exceeded',
+        }],
+      };
+    }
+
+    return {
+      success: true,
+      labelData,
+      shelfLife: { ruleId: rule.id, shelfLifeHours: rule.shelfLifeHours, expiryDate: allowed, mode: 'verified' },
+    };
+  }
+
+  private findDuplicate(restaurantId: string, input: ShelfLifeRuleInput): ShelfLifeRule | undefined {
+    return this.getRules(restaurantId).find(
+      (rule) =>
+        rule.storageMethod === input.storageMethod &&
+        normalize(rule.productName) === normalize(input.productName) &&
+        normalize(rule.category) === normalize(input.category)
+    );
+  }
+}
+
+export const shelfLifeManager = new ShelfLifeManager(
+  createRecordStore<ShelfLifeRule>('shelf-life-rules', reviveDates('createdAt', 'updatedAt'))
+);
@@ -0,0 +1,167 @@
+import { v4 as uuidv4 } from 'uuid';
+import { LabelData, StationRoutingRule } from '../types';
+import { logger } from '../utils/logger';
+import { RecordStore, createRecordStore, reviveDates } from '../storage';
+
+/**
+ * Editable attributes of a routing rule
+ */
+export type StationRoutingRuleInput = Pick<
+  StationRoutingRule,
+  'category' | 'productName' | 'userId' | 'station' | 'fallbackStations'
+>;
+
+const normalize = (value?: string): string => (value || '').trim().toLowerCase();
+
+/**
+ * Whether two station names refer to the same station (case-insensitive)
+ */
+export const isSameStation = (a?: string, b?: string): boolean => !!a && normalize(a) === normalize(b);
+
+/**
+ * Per-restaurant routing of labels to named print stations.
+ *
+ * The most specific matching rule wins: product name outweighs category,
+ * category outweighs user; conditions add up. Labels no rule matches may
+ * print at any station.
+ */
+export class StationRoutingManager {
+  private store: RecordStore<StationRoutingRule>;
+
+  constructor(store: RecordStore<StationRoutingRule>) {
+    this.store = store;
+  }
+
+  /**
+   * Get rule by ID
+   */
+  getRule(id: string): StationRoutingRule | undefined {
+    return this.store.get(id);
+  }
+
+  /**
+   * Get rules of a restaurant
+   */
+  getRules(restaurantId: string): StationRoutingRule[] {
+    return this.store
+      .list((rule) => rule.restaurantId === restaurantId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Create a rule. Returns null if the restaurant already has a rule
+   * with the same conditions.
+   */
+  createRule(restaurantId: string, input: StationRoutingRuleInput, createdBy: string): StationRoutingRule | null {
+    if (this.findDuplicate(restaurantId, input)) {
+      return null;
+    }
+
+    const now = new Date();
+    const rule: StationRoutingRule = {
+      id: uuidv4(),
+      restaurantId,
+      category: input.category,
+      productName: input.productName,
+      userId: input.userId,
+      station: input.station,
+      fallbackStations: input.fallbackStations || [],
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.store.save(rule);
+
+    logger.info('Station routing rule created', {
+      ruleId: rule.id,
+      restaurantId,
+      category: rule.category,
+      productName: rule.productName,
+      userId: rule.userId,
+      station: rule.station,
+      fallbackStations: rule.fallbackStations,
+    });
+
+    return rule;
+  }
+
+  /**
+   * Update a rule. Returns undefined if it does not exist and null if the
+   * change would duplicate another rule.
+   */
+  updateRule(id: string, changes: Partial<StationRoutingRuleInput>): StationRoutingRule | null | undefined {
+    const rule = this.store.get(id);
+    if (!rule) {
+      return undefined;
+    }
+
+    const updated: StationRoutingRule = { ...rule, ...changes, updatedAt: new Date() };
+    const duplicate = this.findDuplicate(rule.restaurantId, updated);
+    if (duplicate && duplicate.id !== id) {
+      return null;
+    }
+
+    this.store.save(updated);
+
+    logger.info('Station routing rule updated', {
+      ruleId: id,
+      restaurantId: rule.restaurantId,
+      changes,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Delete a rule
+   */
+  deleteRule(id: string): boolean {
+    const deleted = this.store.delete(id);
+    if (deleted) {
+      logger.info('Station routing rule deleted', { ruleId: id });
+    }
+    return deleted;
+  }
+
+  /**
+   * Find the most specific rule for a label printed by a user
+   */
+  findRule(restaurantId: string, labelData?: LabelData, userId?: string): StationRoutingRule | undefined {
+    const productName = normalize(labelData?.productName);
+    const category = normalize(labelData?.category);
+
+    const candidates = this.getRules(restaurantId).filter(
+      (rule) =>
+        (!rule.productName || normalize(rule.productName) === productName) &&
+        (!rule.category || normalize(rule.category) === category) &&
+        (!rule.userId || rule.userId === userId)
+    );
+
+    const specificity = (rule: StationRoutingRule) =>
+      (rule.productName ? 4 : 0) + (rule.category ? 2 : 0) + (rule.userId ? 1 : 0);
+    return candidates.sort((a, b) => specificity(b) - specificity(a))[0];
+  }
+
+  /**
+   * Stations a label may print at, in order of preference,
+   * or null if no rule routes it
+   */
+  resolveStations(restaurantId: string, labelData?: LabelData, userId?: string): string[] | null {
+    const rule = this.findRule(restaurantId, labelData, userId);
+    return rule ? [rule.station, ...rule.fallbackStations] : null;
+  }
+
+  private findDuplicate(restaurantId: string, input: StationRoutingRuleInput): StationRoutingRule | undefined {
+    return this.getRules(restaurantId).find(
+      (rule) =>
+        normalize(rule.category) === normalize(input.category) &&
+        normalize(rule.productName) === normalize(input.productName) &&
+        (rule.userId || '') === (input.userId || '')
+    );
+  }
+}
+
+export const stationRoutingManager = new StationRoutingManager(
+  createRecordStore<StationRoutingRule>('station-routing-rules', reviveDates('createdAt', 'updatedAt'))
+);
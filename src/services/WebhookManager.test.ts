@@ -0,0 +1,202 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { config } from '../config';
+import { WebhookDelivery, WebhookSubscription } from '../types';
+import { MemoryRecordStore } from '../storage/MemoryRecordStore';
+import { signWebhook, WebhookManager } from './WebhookManager';
+
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  at: number;
+}
+
+const waitFor = async (check: () => boolean, timeoutMs: number = 5000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for webhook delivery');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('WebhookManager', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  // Status and headers the local receiver answers the nth request (1-based) with
+  let respond: (count: number) => { status: number; headers?: http.OutgoingHttpHeaders };
+  let manager: WebhookManager;
+
+  const subscribe = (restaurantId: string, path: string): WebhookSubscription =>
+    manager.createSubscription(
+      restaurantId,
+      { url: `${baseUrl}${path}`, events: ['print.completed'], active: true },
+      'u1'
+    );
+
+  const lastDelivery = (subscriptionId: string): WebhookDelivery | undefined =>
+    manager.getDeliveries(subscriptionId)[0];
+
+  const finished = (subscriptionId: string) => () => lastDelivery(subscriptionId)?.status !== 'pending';
+
+  beforeAll(async () => {
+    Object.assign(config.webhooks, {
+      allowHttp: true,
+      allowPrivateTargets: true,
+      maxAttempts: 3,
+      retryBackoffMs: 50,
+      retryBackoffMaxMs: 1000,
+      timeoutMs: 2000,
+    });
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ path: req.url || '', headers: req.headers, body, at: Date.now() });
+        const { status, headers } = respond(received.length);
+        res.writeHead(status, headers);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    respond = () => ({ status: 200 });
+    manager = new WebhookManager(
+      new MemoryRecordStore<WebhookSubscription>(),
+      new MemoryRecordStore<WebhookDelivery>()
+    );
+  });
+
+  afterEach(() => {
+    manager.close();
+  });
+
+  it('signs the body with the subscription secret', async () => {
+    const subscription = subscribe('r-sign', '/hook');
+    manager.publish('r-sign', 'print.completed', { commandId: 'c1', success: true });
+
+    await waitFor(finished(subscription.id));
+    expect(received).toHaveLength(1);
+
+    const [request] = received;
+    const body = JSON.parse(request.body);
+    const timestamp = Number(request.headers['x-webhook-timestamp']);
+
+    expect(body).toMatchObject({ event: 'print.completed', restaurantId: 'r-sign', data: { commandId: 'c1' } });
+    expect(request.headers['x-webhook-id']).toBe(body.id);
+    expect(request.headers['x-webhook-event']).toBe('print.completed');
+    expect(request.headers['x-webhook-signature']).toBe(
+      `sha256=${signWebhook(subscription.secret, timestamp, request.body)}`
+    );
+    expect(request.headers['x-webhook-signature']).not.toBe(
+      `sha256=${signWebhook('other-secret', timestamp, request.body)}`
+    );
+  });
+
+  it('records successful deliveries in the log', async () => {
+    const subscription = subscribe('r-log', '/hook');
+    manager.publish('r-log', 'print.completed', { commandId: 'c1' });
+
+    await waitFor(finished(subscription.id));
+    expect(lastDelivery(subscription.id)).toMatchObject({
+      event: 'print.completed',
+      status: 'success',
+      attempts: 1,
+      responseStatus: 200,
+    });
+  });
+
+  it('only sends events a restaurant subscribed to', async () => {
+    subscribe('r-filter', '/hook');
+    manager.publish('r-filter', 'print.failed', { commandId: 'c1' });
+    manager.publish('r-other', 'print.completed', { commandId: 'c2' });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(received).toHaveLength(0);
+  });
+
+  it('retries failed deliveries with exponential backoff', async () => {
+    respond = (count) => ({ status: count < 3 ? 500 : 200 });
+    const subscription = subscribe('r-retry', '/hook');
+    manager.publish('r-retry', 'print.completed', { commandId: 'c1' });
+
+    await waitFor(finished(subscription.id));
+    expect(lastDelivery(subscription.id)).toMatchObject({ status: 'success', attempts: 3 });
+
+    // Same delivery ID on every attempt, 50 ms then 100 ms apart
+    expect(new Set(received.map((r) => r.headers['x-webhook-id'])).size).toBe(1);
+    expect(received[1].at - received[0].at).toBeGreaterThanOrEqual(45);
+    expect(received[2].at - received[1].at).toBeGreaterThanOrEqual(95);
+  });
+
+  it('gives up after the last attempt', async () => {
+    respond = () => ({ status: 503 });
+    const subscription = subscribe('r-fail', '/hook');
+    manager.publish('r-fail', 'print.completed', { commandId: 'c1' });
+
+    await waitFor(finished(subscription.id));
+    expect(lastDelivery(subscription.id)).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      responseStatus: 503,
+      error: 'HTTP 503',
+    });
+    expect(received).toHaveLength(3);
+  });
+
+  it('does not follow redirects', async () => {
+    respond = () => ({ status: 302, headers: { Location: `${baseUrl}/elsewhere` } });
+    const subscription = subscribe('r-redirect', '/moved');
+    manager.publish('r-redirect', 'print.completed', { commandId: 'c1' });
+
+    await waitFor(finished(subscription.id));
+    expect(lastDelivery(subscription.id)).toMatchObject({ status: 'failed', responseStatus: 302 });
+    expect(received.every((r) => r.path === '/moved')).toBe(true);
+  });
+
+  it('refuses to deliver to private addresses', async () => {
+    const subscription = subscribe('r-private', '/hook');
+    config.webhooks.allowPrivateTargets = false;
+    try {
+      manager.publish('r-private', 'print.completed', { commandId: 'c1' });
+      await waitFor(finished(subscription.id));
+    } finally {
+      config.webhooks.allowPrivateTargets = true;
+    }
+
+    expect(lastDelivery(subscription.id)).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(lastDelivery(subscription.id).error).toMatch(/non-public address/);
+    expect(received).toHaveLength(0);
+  });
+
+  it('expires finished deliveries past the retention period', async () => {
+    const subscription = subscribe('r-expire', '/hook');
+    manager.publish('r-expire', 'print.completed', { commandId: 'c1' });
+    await waitFor(finished(subscription.id));
+
+    expect(manager.expireDeliveries()).toBe(0);
+
+    const retentionMs = config.webhooks.deliveryRetentionDays * 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + retentionMs + 1);
+    try {
+      expect(manager.expireDeliveries()).toBe(1);
+    } finally {
+      clock.mockRestore();
+    }
+    expect(manager.getDeliveries(subscription.id)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,342 @@
+import { createHmac, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookDelivery, WebhookEventType, WebhookSubscription } from '../types';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { RecordStore, createRecordStore, reviveDates } from '../storage';
+import { postWebhook, resolveWebhookTarget } from '../utils/webhookTarget';
+
+/**
+ * Editable attributes of a webhook subscription
+ */
+export type WebhookSubscriptionInput = Pick<WebhookSubscription, 'url' | 'events' | 'description' | 'active'>;
+
+/**
+ * Signature of a webhook body: hex HMAC-SHA256 of `<timestamp>.<body>`
+ * with the subscription secret. Receivers recompute it from the
+ * X-Webhook-Timestamp header and the raw body.
+ */
+export const signWebhook = (secret: string, timestamp: number, body: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * Per-restaurant outbound webhooks.
+ *
+ * Each event is POSTed as JSON `{ id, event, restaurantId, createdAt, data }`
+ * with the headers X-Webhook-Id (delivery ID, same on every retry),
+ * X-Webhook-Event, X-Webhook-Timestamp and X-Webhook-Signature
+ * (`sha256=<hex>`, see signWebhook). Any 2xx response counts as delivered;
+ * other responses (redirects are not followed) and network errors are
+ * retried with exponential backoff up to `webhooks.maxAttempts`. A target
+ * rejected by resolveWebhookTarget fails at once; it is checked again on every
+ * attempt, as DNS may have changed since the subscription was saved.
+ * Deliveries are kept as a log per subscription.
+ */
+export class WebhookManager {
+  private subscriptions: RecordStore<WebhookSubscription>;
+  private deliveries: RecordStore<WebhookDelivery>;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(subscriptions: RecordStore<WebhookSubscription>, deliveries: RecordStore<WebhookDelivery>) {
+    this.subscriptions = subscriptions;
+    this.deliveries = deliveries;
+  }
+
+  /**
+   * Get subscription by ID
+   */
+  getSubscription(id: string): WebhookSubscription | undefined {
+    return this.subscriptions.get(id);
+  }
+
+  /**
+   * Get subscriptions of a restaurant
+   */
+  getSubscriptions(restaurantId: string): WebhookSubscription[] {
+    return this.subscriptions
+      .list((subscription) => subscription.restaurantId === restaurantId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Create a subscription with a new signing secret
+   */
+  createSubscription(restaurantId: string, input: WebhookSubscriptionInput, createdBy: string): WebhookSubscription {
+    const now = new Date();
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      restaurantId,
+      url: input.url,
+      events: input.events,
+      secret: randomBytes(32).toString('hex'),
+      description: input.description,
+      active: input.active !== false,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.subscriptions.save(subscription);
+
+    logger.info('Webhook subscription created', {
+      subscriptionId: subscription.id,
+      restaurantId,
+      url: subscription.url,
+      events: subscription.events,
+    });
+
+    return subscription;
+  }
+
+  /**
+   * Update a subscription. Returns undefined if it does not exist.
+   */
+  updateSubscription(id: string, changes: Partial<WebhookSubscriptionInput>): WebhookSubscription | undefined {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      return undefined;
+    }
+
+    const updated: WebhookSubscription = { ...subscription, ...changes, updatedAt: new Date() };
+    this.subscriptions.save(updated);
+
+    logger.info('Webhook subscription updated', {
+      subscriptionId: id,
+      restaurantId: subscription.restaurantId,
+      changes,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Delete a subscription with its delivery log
+   */
+  deleteSubscription(id: string): boolean {
+    const deleted = this.subscriptions.delete(id);
+    if (deleted) {
+      for (const delivery of this.deliveries.list((d) => d.subscriptionId === id)) {
+        this.clearTimer(delivery.id);
+        this.deliveries.delete(delivery.id);
+      }
+      logger.info('Webhook subscription deleted', { subscriptionId: id });
+    }
+    return deleted;
+  }
+
+  /**
+   * Delivery log of a subscription, newest first
+   */
+  getDeliveries(subscriptionId: string, limit: number = 50): WebhookDelivery[] {
+    return this.deliveries
+      .list((delivery) => delivery.subscriptionId === subscriptionId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Send an event to the restaurant's active subscriptions for it
+   */
+  publish(restaurantId: string | null | undefined, event: WebhookEventType, data: unknown): void {
+    if (!restaurantId) {
+      return;
+    }
+
+    const subscriptions = this.subscriptions.list(
+      (subscription) =>
+        subscription.restaurantId === restaurantId && subscription.active && subscription.events.includes(event)
+    );
+
+    for (const subscription of subscriptions) {
+      const now = new Date();
+      const delivery: WebhookDelivery = {
+        id: uuidv4(),
+        subscriptionId: subscription.id,
+        restaurantId,
+        event,
+        body: '',
+        status: 'pending',
+        attempts: 0,
+        nodeId: config.cluster.nodeId,
+        createdAt: now,
+        nextAttemptAt: now,
+      };
+      delivery.body = JSON.stringify({ id: delivery.id, event, restaurantId, createdAt: now.toISOString(), data });
+
+      this.deliveries.save(delivery);
+      this.pruneLog(subscription.id);
+      void this.attempt(delivery.id);
+    }
+  }
+
+  /**
+   * Pick up deliveries that were waiting for a retry when the process
+   * stopped (in cluster mode only those of this node)
+   */
+  resumePending(): number {
+    const pending = this.deliveries.list(
+      (delivery) =>
+        delivery.status === 'pending' && (!config.cluster.enabled || delivery.nodeId === config.cluster.nodeId)
+    );
+
+    for (const delivery of pending) {
+      const delay = Math.max((delivery.nextAttemptAt?.getTime() || 0) - Date.now(), 0);
+      this.setTimer(delivery.id, delay);
+    }
+
+    if (pending.length > 0) {
+      logger.info('Pending webhook deliveries resumed', { count: pending.length });
+    }
+    return pending.length;
+  }
+
+  /**
+   * Stop retry timers (shutdown); pending deliveries resume on next start
+   */
+  close(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private async attempt(deliveryId: string): Promise<void> {
+    this.timers.delete(deliveryId);
+
+    const delivery = this.deliveries.get(deliveryId);
+    const subscription = delivery && this.subscriptions.get(delivery.subscriptionId);
+    if (!delivery || !subscription || delivery.status !== 'pending') {
+      return;
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    let rejected = false;
+
+    try {
+      const target = await resolveWebhookTarget(subscription.url);
+      if (typeof target === 'string') {
+        error = target;
+        rejected = true;
+      } else {
+        responseStatus = await postWebhook(
+          target,
+          {
+            'Content-Type': 'application/json',
+            'User-Agent': 'cloudchef-print-server',
+            'X-Webhook-Id': delivery.id,
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': `sha256=${signWebhook(subscription.secret, timestamp, delivery.body)}`,
+          },
+          delivery.body,
+          config.webhooks.timeoutMs
+        );
+        if (responseStatus < 200 || responseStatus >= 300) {
+          error = `HTTP ${responseStatus}`;
+        }
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Unknown error';
+    }
+
+    const attempts = delivery.attempts + 1;
+    const updated: WebhookDelivery = {
+      ...delivery,
+      attempts,
+      lastAttemptAt: new Date(),
+      responseStatus,
+      error,
+      nextAttemptAt: undefined,
+    };
+
+    if (!error) {
+      this.deliveries.save({ ...updated, status: 'success', completedAt: new Date() });
+      logger.info('Webhook delivered', {
+        deliveryId,
+        subscriptionId: subscription.id,
+        event: delivery.event,
+        attempts,
+      });
+      return;
+    }
+
+    if (rejected || attempts >= config.webhooks.maxAttempts) {
+      this.deliveries.save({ ...updated, status: 'failed', completedAt: new Date() });
+      logger.warn(rejected ? 'Webhook target rejected' : 'Webhook delivery failed, giving up', {
+        deliveryId,
+        subscriptionId: subscription.id,
+        event: delivery.event,
+        attempts,
+        error,
+      });
+      return;
+    }
+
+    const delay = Math.min(
+      config.webhooks.retryBackoffMs * 2 ** (attempts - 1),
+      config.webhooks.retryBackoffMaxMs
+    );
+    this.deliveries.save({ ...updated, nextAttemptAt: new Date(Date.now() + delay) });
+    this.setTimer(deliveryId, delay);
+
+    logger.info('Webhook delivery retry scheduled', {
+      deliveryId,
+      subscriptionId: subscription.id,
+      event: delivery.event,
+      attempt: attempts + 1,
+      delayMs: delay,
+      error,
+    });
+  }
+
+  /**
+   * Drop finished deliveries older than the retention period from the log
+   */
+  expireDeliveries(): number {
+    const cutoff = Date.now() - config.webhooks.deliveryRetentionDays * 24 * 60 * 60 * 1000;
+    const expired = this.deliveries.list(
+      (delivery) => delivery.status !== 'pending' && delivery.createdAt.getTime() < cutoff
+    );
+    for (const delivery of expired) {
+      this.deliveries.delete(delivery.id);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Keep the newest finished deliveries of a subscription
+   */
+  private pruneLog(subscriptionId: string): void {
+    const finished = this.deliveries
+      .list((delivery) => delivery.subscriptionId === subscriptionId && delivery.status !== 'pending')
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    for (const delivery of finished.slice(config.webhooks.deliveryLogSize)) {
+      this.deliveries.delete(delivery.id);
+    }
+  }
+
+  private setTimer(deliveryId: string, delayMs: number): void {
+    this.clearTimer(deliveryId);
+    this.timers.set(deliveryId, setTimeout(() => void this.attempt(deliveryId), delayMs));
+  }
+
+  private clearTimer(deliveryId: string): void {
+    const timer = this.timers.get(deliveryId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(deliveryId);
+    }
+  }
+}
+
+export const webhookManager = new WebhookManager(
+  createRecordStore<WebhookSubscription>('webhook-subscriptions', reviveDates('createdAt', 'updatedAt')),
+  createRecordStore<WebhookDelivery>(
+    'webhook-deliveries',
+    reviveDates('createdAt', 'lastAttemptAt', 'nextAttemptAt', 'completedAt'),
+    { journal: true }
+  )
+);
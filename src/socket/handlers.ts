@@ -1,16 +1,56 @@
 import { Server, Socket } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
-import { agentManager } from '../services/AgentManager';
+import { agentManager, toPrinterList } from '../services/AgentManager';
 import { printQueueManager } from '../services/PrintQueueManager';
-import { socketRateLimiter } from '../middleware/rateLimit';
+import { printDispatcher } from '../services/PrintDispatcher';
+import { printerAlertManager } from '../services/PrinterAlertManager';
+import { webhookManager } from '../services/WebhookManager';
+import { pairingManager } from '../services/PairingManager';
+import { shelfLifeManager } from '../services/ShelfLifeManager';
+import { clusterManager } from '../services/ClusterManager';
+import { pairingCodeRateLimiter, socketRateLimiter } from '../middleware/rateLimit';
 import { verifySocketToken, verifyAgentToken } from '../middleware/auth';
-import { ClientRegistration, PrintRequest, PrintResponse } from '../types';
+import { getUserRole, guardSocket } from '../middleware/permissions';
+import { canAccessRestaurant, getAllowedRestaurants, rejectSocketTenant } from '../middleware/tenant';
+import { validateSocketPayload } from '../middleware/validate';
+import {
+  agentStatusSchema,
+  cancelPrintSchema,
+  pairingCodeRequestSchema,
+  previewRequestSchema,
+  printAckSchema,
+  printBatchRequestSchema,
+  printCommandSchema,
+  printRequestSchema,
+  printResultSchema,
+  registerAgentSchema,
+  registerSchema,
+  reprintRequestSchema,
+  roomCodeSchema,
+} from '../validation';
+import { renderPreview, validatePreviewOptions, PreviewOptions } from '../labels';
+import { ConnectedAgent, PrintResponse, SocketRole } from '../types';
+
+/**
+ * Agent fields sent with the agent.connected / agent.disconnected webhooks
+ */
+const agentEventData = (agent: ConnectedAgent) => ({
+  agentId: agent.id,
+  station: agent.station,
+  version: agent.version,
+  printers: agent.printers,
+  connectedAt: agent.connectedAt,
+});
 
 /**
  * Initialize Socket.IO handlers
  */
 export function initializeSocketHandlers(io: Server): void {
+  printDispatcher.attach(io);
+  printerAlertManager.attach(io);
+  pairingManager.attach(io);
+
   io.on('connection', async (socket: Socket) => {
     logger.info('New socket connection', {
       socketId: socket.id,
@@ -74,8 +114,61 @@ export function initializeSocketHandlers(io: Server): void {
       }
     }
 
+    /**
+     * Restaurants this socket may act for: a registered agent only its own,
+     * other clients those of their JWT
+     */
+    const allowedRestaurants = (): string[] =>
+      socket.data.role === 'agent'
+        ? [socket.data.restaurantId].filter(Boolean)
+        : getAllowedRestaurants(authPayload);
+
+    const mayAccess = (restaurantId?: string | null): boolean =>
+      !!restaurantId && allowedRestaurants().includes(restaurantId);
+
+    // Role for permission checks: agents by registration, users only from their JWT
+    const role = (): SocketRole | undefined =>
+      socket.data.role === 'agent' ? 'agent' : getUserRole(authPayload);
+
+    const allowedAgents = () => allowedRestaurants().flatMap((id) => agentManager.getAgentsByRestaurant(id));
+
+    // 🔗 Новый агент без токена запрашивает 6-значный код сопряжения
+    socket.on('request-pairing-code', (payload: unknown, callback?: (response: any) => void) => {
+      // The payload is optional: emit('request-pairing-code', callback)
+      if (typeof payload === 'function') {
+        callback = payload as (response: any) => void;
+        payload = {};
+      }
+
+      const data = validateSocketPayload(socket, 'request-pairing-code', pairingCodeRequestSchema, payload || {}, callback);
+      if (!data) return;
+
+      if (clientType !== 'agent' || socket.data.agentTokenVerified || socket.data.agentId) {
+        if (callback) callback({ success: false, error: 'Pairing is only for agents without a token' });
+        return;
+      }
+
+      if (!pairingCodeRateLimiter.check(socket.handshake.address)) {
+        if (callback) callback({ success: false, error: 'Too many pairing codes requested, please try again later' });
+        return;
+      }
+
+      const request = pairingManager.request(socket.id, {
+        ip: socket.handshake.address,
+        deviceName: data.deviceName,
+        station: data.station,
+      });
+
+      if (callback) {
+        callback({ success: true, code: request.id, expiresAt: request.expiresAt });
+      }
+    });
+
     // Handle Print Agent registration (legacy format with pairing code)
-    socket.on('register_agent', (data: { code: string; printerInfo?: any }, callback?: (response: any) => void) => {
+    socket.on('register_agent', (payload: unknown, callback?: (response: any) => void) => {
+      const data = validateSocketPayload(socket, 'register_agent', registerAgentSchema, payload, callback);
+      if (!data) return;
+
       try {
         // 🔐 Если агент верифицирован через токен, используем код из токена
         const restaurantCode = socket.data.verifiedRestaurantCode || data.code;
@@ -98,6 +191,12 @@ export function initializeSocketHandlers(io: Server): void {
           return;
         }
 
+        // 🔒 Без токена агента код ресторана должен входить в рестораны JWT
+        if (!socket.data.agentTokenVerified && !canAccessRestaurant(authPayload, restaurantCode)) {
+          rejectSocketTenant(socket, 'register_agent', restaurantCode, callback);
+          return;
+        }
+
         // 🔒 Проверяем, не зарегистрирован ли уже этот сокет
         if (socket.data.agentId) {
           logger.info('⚠️ Агент уже зарегистрирован, пропускаем повторную регистрацию', {
@@ -141,15 +240,18 @@ export function initializeSocketHandlers(io: Server): void {
           restaurantId,
           null,
           code,  // ✅ ДОБАВЛЕНО: Передаем code в AgentManager
-          data.printerInfo || null,
+          toPrinterList(data.printerInfo, data.printers),
           'unknown',
-          socket.handshake.address
+          socket.handshake.address,
+          data.station
         );
 
         socket.data.agentId = agentId;
         socket.data.role = 'agent';
         socket.data.restaurantId = restaurantId;
         socket.data.code = code;  // ✅ ДОБАВЛЕНО: Сохраняем code в socket.data
+        printerAlertManager.observe(agent);
+        webhookManager.publish(restaurantId, 'agent.connected', agentEventData(agent));
 
         // Join restaurant room
         socket.join(`restaurant:${restaurantId}`);
@@ -182,8 +284,11 @@ export function initializeSocketHandlers(io: Server): void {
           agents: roomAgents,
         });
         
-        // Также отправляем глобальное событие connected-agents для мониторинга
-        io.emit('connected-agents', roomAgents);
+        // Также отправляем connected-agents для мониторинга (только комнате ресторана)
+        io.to(`restaurant:${restaurantId}`).emit('connected-agents', roomAgents);
+
+        // 📬 Доставляем задания, накопившиеся пока агент был офлайн
+        printDispatcher.flushQueue(restaurantId);
 
         if (callback) {
           callback({ success: true, agentId, restaurantId, code });  // ✅ ДОБАВЛЕНО: code в callback
@@ -205,39 +310,60 @@ export function initializeSocketHandlers(io: Server): void {
     });
 
     // Handle client registration
-    socket.on('register', (data: ClientRegistration, callback?: (response: any) => void) => {
+    socket.on('register', (payload: unknown, callback?: (response: any) => void) => {
+      const data = validateSocketPayload(socket, 'register', registerSchema, payload, callback);
+      if (!data) return;
+
       try {
         logger.info('Client registration', { socketId: socket.id, data });
 
+        const requestedRestaurantId = data.restaurantId || authPayload?.restaurantId;
+        const allowed = data.role === 'agent' && socket.data.agentTokenVerified
+          ? requestedRestaurantId === socket.data.verifiedRestaurantCode
+          : canAccessRestaurant(authPayload, requestedRestaurantId);
+        if (requestedRestaurantId && !allowed) {
+          rejectSocketTenant(socket, 'register', requestedRestaurantId, callback);
+          return;
+        }
+
         if (data.role === 'agent') {
+          if (!data.restaurantId) {
+            if (callback) callback({ success: false, error: 'Restaurant ID is required' });
+            return;
+          }
+
           // Register Print Agent
           const agentId = uuidv4();
-          const code = data.restaurantId || 'unknown';  // ✅ ДОБАВЛЕНО: используем restaurantId как code
+          const code = data.restaurantId;  // ✅ ДОБАВЛЕНО: используем restaurantId как code
           const agent = agentManager.register(
             agentId,
             socket.id,
-            data.restaurantId || null,
+            data.restaurantId,
             authPayload?.userId || null,
             code,  // ✅ ИСПРАВЛЕНО: добавлен параметр code
-            data.printerInfo || null,
+            toPrinterList(data.printerInfo, data.printers),
             data.version || 'unknown',
-            socket.handshake.address
+            socket.handshake.address,
+            data.station
           );
 
           socket.data.agentId = agentId;
           socket.data.role = 'agent';
           socket.data.restaurantId = data.restaurantId;
+          printerAlertManager.observe(agent);
+          webhookManager.publish(data.restaurantId, 'agent.connected', agentEventData(agent));
 
           // Join restaurant room
-          if (data.restaurantId) {
-            socket.join(`restaurant:${data.restaurantId}`);
-          }
+          socket.join(`restaurant:${data.restaurantId}`);
 
-          // Notify all clients about new agent
-          io.emit('agents-updated', {
-            agents: agentManager.getAllAgents(),
+          // Notify the restaurant's clients about new agent
+          io.to(`restaurant:${data.restaurantId}`).emit('agents-updated', {
+            agents: agentManager.getAgentsByRestaurant(data.restaurantId),
           });
 
+          // Deliver jobs queued while the restaurant had no agents
+          printDispatcher.flushQueue(data.restaurantId);
+
           if (callback) {
             callback({
               success: true,
@@ -246,10 +372,10 @@ export function initializeSocketHandlers(io: Server): void {
             });
           }
         } else {
-          // Register Web Client
-          socket.data.role = data.role || 'web-client';
+          // Register Web Client (the claimed role is ignored, it comes from the JWT)
+          socket.data.role = getUserRole(authPayload) || 'web-client';
           socket.data.userId = authPayload?.userId;
-          socket.data.restaurantId = data.restaurantId || authPayload?.restaurantId;
+          socket.data.restaurantId = requestedRestaurantId;
 
           // Join restaurant room
           if (socket.data.restaurantId) {
@@ -259,7 +385,7 @@ export function initializeSocketHandlers(io: Server): void {
           // Send current agents list
           const agents = socket.data.restaurantId
             ? agentManager.getAgentsByRestaurant(socket.data.restaurantId)
-            : agentManager.getAllAgents();
+            : allowedAgents();
 
           socket.emit('agents-updated', { agents });
 
@@ -285,7 +411,7 @@ export function initializeSocketHandlers(io: Server): void {
     });
 
     // Handle print request
-    socket.on('print-label', async (data: PrintRequest, callback?: (response: PrintResponse) => void) => {
+    socket.on('print-label', async (payload: unknown, callback?: (response: PrintResponse) => void) => {
       try {
         // Rate limiting
         if (!socketRateLimiter.check(socket.id)) {
@@ -297,6 +423,10 @@ export function initializeSocketHandlers(io: Server): void {
           return;
         }
 
+        const data = validateSocketPayload(socket, 'print-label', printRequestSchema, payload, callback);
+        if (!data) return;
+        if (!guardSocket(socket, role(), 'print-label', 'print', callback)) return;
+
         logger.info('Print request received', {
           socketId: socket.id,
           userId: socket.data.userId,
@@ -313,113 +443,258 @@ export function initializeSocketHandlers(io: Server): void {
           if (callback) callback(response);
           return;
         }
+        if (!mayAccess(restaurantId)) {
+          rejectSocketTenant(socket, 'print-label', restaurantId, callback);
+          return;
+        }
 
-        // Find target agent
-        let targetAgent;
-        if (data.targetAgentId) {
-          targetAgent = agentManager.getAgent(data.targetAgentId);
-          if (!targetAgent) {
-            const response: PrintResponse = {
-              success: false,
-              error: 'Target agent not found or offline',
-            };
-            if (callback) callback(response);
-            return;
-          }
-        } else {
-          // Find any online agent for this restaurant
-          const agents = agentManager.getAgentsByRestaurant(restaurantId);
-          targetAgent = agents.find((a) => a.printerInfo?.status === 'ready') || agents[0];
-
-          if (!targetAgent) {
-            const response: PrintResponse = {
-              success: false,
-              error: 'No online agents found for this restaurant',
-            };
-            if (callback) callback(response);
-            return;
-          }
+        const userId = socket.data.userId || authPayload?.userId || 'unknown';
+        const response = await printDispatcher.submit(data, restaurantId, userId);
+        if (callback) callback(response);
+      } catch (error) {
+        logger.error('Print request error', {
+          socketId: socket.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        const response: PrintResponse = {
+          success: false,
+          error: 'Print request failed',
+        };
+        if (callback) callback(response);
+      }
+    });
+
+    // Handle batch print request (one job, counted once by the rate limiter)
+    socket.on('print-batch', async (payload: unknown, callback?: (response: PrintResponse) => void) => {
+      try {
+        if (!socketRateLimiter.check(socket.id)) {
+          const response: PrintResponse = {
+            success: false,
+            error: 'Rate limit exceeded. Please slow down.',
+          };
+          if (callback) callback(response);
+          return;
         }
 
-        // Create print command
-        const commandId = uuidv4();
-        const command = printQueueManager.createCommand(
-          commandId,
-          restaurantId,
-          socket.data.userId || authPayload?.userId || 'unknown',
-          targetAgent.id,
-          data.labelData
-        );
+        const data = validateSocketPayload(socket, 'print-batch', printBatchRequestSchema, payload, callback);
+        if (!data) return;
+        if (!guardSocket(socket, role(), 'print-batch', 'print', callback)) return;
+
+        const restaurantId = data.restaurantId || socket.data.restaurantId;
 
-        // Send print command to agent
-        io.to(targetAgent.socketId).emit('print-command', {
-          commandId,
-          labelData: data.labelData,
+        logger.info('Batch print request received', {
+          socketId: socket.id,
+          userId: socket.data.userId,
+          restaurantId,
+          items: data.items.length,
         });
 
-        // Update command status
-        printQueueManager.updateStatus(commandId, 'printing');
+        if (!restaurantId) {
+          const response: PrintResponse = {
+            success: false,
+            error: 'Restaurant ID is required',
+          };
+          if (callback) callback(response);
+          return;
+        }
+        if (!mayAccess(restaurantId)) {
+          rejectSocketTenant(socket, 'print-batch', restaurantId, callback);
+          return;
+        }
 
-        // Send success response
+        const userId = socket.data.userId || authPayload?.userId || 'unknown';
+        const response = await printDispatcher.submitBatch(data, restaurantId, userId);
+        if (callback) callback(response);
+      } catch (error) {
+        logger.error('Batch print request error', {
+          socketId: socket.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
         const response: PrintResponse = {
-          success: true,
-          commandId,
-          message: 'Print command sent to agent',
+          success: false,
+          error: 'Batch print request failed',
         };
         if (callback) callback(response);
+      }
+    });
 
-        logger.info('Print command sent to agent', {
-          commandId,
-          agentId: targetAgent.id,
-          restaurantId,
+    // Handle print cancellation (queued, pending or already sent jobs)
+    socket.on('cancel-print', (payload: unknown, callback?: (response: PrintResponse) => void) => {
+      const data = validateSocketPayload(socket, 'cancel-print', cancelPrintSchema, payload, callback);
+      if (!data) return;
+      if (!guardSocket(socket, role(), 'cancel-print', 'cancel', callback)) return;
+
+      const command = printQueueManager.getCommand(data.commandId);
+      if (command && !mayAccess(command.restaurantId)) {
+        rejectSocketTenant(socket, 'cancel-print', command.restaurantId, callback);
+        return;
+      }
+
+      const userId = socket.data.userId || authPayload?.userId || 'unknown';
+      const response = printDispatcher.cancel(data.commandId, userId, data.reason);
+
+      logger.info('Print cancel request', {
+        socketId: socket.id,
+        commandId: data.commandId,
+        success: response.success,
+      });
+
+      if (callback) callback(response);
+    });
+
+    // Handle reprint of an earlier command (optionally with label overrides)
+    socket.on('reprint', async (payload: unknown, callback?: (response: PrintResponse) => void) => {
+      try {
+        if (!socketRateLimiter.check(socket.id)) {
+          const response: PrintResponse = {
+            success: false,
+            error: 'Rate limit exceeded. Please slow down.',
+          };
+          if (callback) callback(response);
+          return;
+        }
+
+        const data = validateSocketPayload(socket, 'reprint', reprintRequestSchema, payload, callback);
+        if (!data) return;
+        if (!guardSocket(socket, role(), 'reprint', 'reprint', callback)) return;
+
+        const original = printQueueManager.getCommand(data.commandId);
+        if (original && !mayAccess(original.restaurantId)) {
+          rejectSocketTenant(socket, 'reprint', original.restaurantId, callback);
+          return;
+        }
+
+        const userId = socket.data.userId || authPayload?.userId || 'unknown';
+        const response = await printDispatcher.reprint(data, userId);
+
+        logger.info('Reprint request', {
+          socketId: socket.id,
+          originalCommandId: data.commandId,
+          commandId: response.commandId,
+          success: response.success,
         });
+
+        if (callback) callback(response);
       } catch (error) {
-        logger.error('Print request error', {
+        logger.error('Reprint request error', {
           socketId: socket.id,
           error: error instanceof Error ? error.message : 'Unknown error',
         });
         const response: PrintResponse = {
           success: false,
-          error: 'Print request failed',
+          error: 'Reprint request failed',
         };
         if (callback) callback(response);
       }
     });
 
+    // Handle label preview request
+    socket.on('preview-label', async (payload: unknown, callback?: (response: any) => void) => {
+      if (!callback) return;
+
+      if (!socketRateLimiter.check(socket.id)) {
+        callback({ success: false, error: 'Rate limit exceeded. Please slow down.' });
+        return;
+      }
+
+      const data = validateSocketPayload(socket, 'preview-label', previewRequestSchema, payload, callback);
+      if (!data) return;
+      if (!guardSocket(socket, role(), 'preview-label', 'print', callback)) return;
+
+      const restaurantId = data.restaurantId || socket.data.restaurantId;
+      if (!restaurantId) {
+        callback({ success: false, error: 'Restaurant ID is required', code: 'VALIDATION_FAILED' });
+        return;
+      }
+      if (!mayAccess(restaurantId)) {
+        rejectSocketTenant(socket, 'preview-label', restaurantId, callback);
+        return;
+      }
+
+      try {
+        const options: PreviewOptions = { format: data.format, layoutId: data.layoutId, dpi: data.dpi };
+        const validationError = validatePreviewOptions(options);
+        if (validationError) {
+          callback({ success: false, error: validationError });
+          return;
+        }
+
+        // Preview the label as it would print, with the expiry date from the shelf-life rules
+        const shelfLife = shelfLifeManager.apply(restaurantId, data.labelData);
+        if (shelfLife.success === false) {
+          callback({ success: false, error: 'Validation failed', code: 'VALIDATION_FAILED', details: shelfLife.errors });
+          return;
+        }
+
+        const preview = await renderPreview(shelfLife.labelData, options);
+        callback({
+          success: true,
+          format: preview.format,
+          contentType: preview.contentType,
+          layoutId: preview.layoutId,
+          dpi: preview.dpi,
+          widthMm: preview.widthMm,
+          heightMm: preview.heightMm,
+          overflow: preview.overflow,
+          encoding: preview.format === 'svg' ? 'utf8' : 'base64',
+          data: preview.data.toString(preview.format === 'svg' ? 'utf8' : 'base64'),
+        });
+      } catch (error) {
+        logger.error('Label preview error', {
+          socketId: socket.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        callback({ success: false, error: 'Label preview failed' });
+      }
+    });
+
     // Handle print result from agent
-    socket.on('print-result', (data: { commandId: string; success: boolean; error?: string }) => {
+    socket.on('print-result', (payload: unknown) => {
+      const data = validateSocketPayload(socket, 'print-result', printResultSchema, payload);
+      if (!data) return;
+
       logger.info('Print result received', {
         socketId: socket.id,
         commandId: data.commandId,
         success: data.success,
       });
 
-      if (data.success) {
-        printQueueManager.updateStatus(data.commandId, 'success');
-      } else {
-        printQueueManager.updateStatus(data.commandId, 'failed', data.error);
+      const command = printQueueManager.getCommand(data.commandId);
+      if (command && (socket.data.role !== 'agent' || !mayAccess(command.restaurantId))) {
+        rejectSocketTenant(socket, 'print-result', command.restaurantId);
+        return;
       }
 
-      // Notify relevant clients
-      const command = printQueueManager.getCommand(data.commandId);
-      if (command) {
-        io.to(`restaurant:${command.restaurantId}`).emit('print-completed', {
-          commandId: data.commandId,
-          success: data.success,
-          error: data.error,
-        });
+      const agentId = socket.data.agentId;
+      if (agentId) {
+        printDispatcher.complete(data.commandId, agentId, data.success, data.error, data.items);
+      }
+    });
+
+    // Handle print acknowledgement from agent (command received)
+    socket.on('print-ack', (payload: unknown) => {
+      const data = validateSocketPayload(socket, 'print-ack', printAckSchema, payload);
+      if (!data) return;
+
+      const agentId = socket.data.agentId;
+      if (agentId) {
+        printDispatcher.acknowledge(data.commandId, agentId);
       }
     });
 
     // Handle agent status update
-    socket.on('agent-status', (data: { printerInfo: any }) => {
+    socket.on('agent-status', (payload: unknown) => {
+      const data = validateSocketPayload(socket, 'agent-status', agentStatusSchema, payload);
+      if (!data) return;
+
       const agentId = socket.data.agentId;
       if (agentId) {
-        agentManager.updatePrinterInfo(agentId, data.printerInfo);
+        agentManager.updatePrinters(agentId, toPrinterList(data.printerInfo, data.printers));
+        printerAlertManager.observe(agentManager.getAgent(agentId));
         
-        // Notify all clients
-        io.emit('agents-updated', {
-          agents: agentManager.getAllAgents(),
+        // Notify the restaurant's clients
+        io.to(`restaurant:${socket.data.restaurantId}`).emit('agents-updated', {
+          agents: agentManager.getAgentsByRestaurant(socket.data.restaurantId),
         });
       }
     });
@@ -443,19 +718,49 @@ export function initializeSocketHandlers(io: Server): void {
     });
 
     // 🖨️ Handle print_command from web clients
-    socket.on('print_command', (data: { code: string; labelData: any; userInfo?: any }) => {
+    socket.on('print_command', (payload: unknown) => {
+      const data = validateSocketPayload(
+        socket,
+        'print_command',
+        printCommandSchema,
+        payload,
+        (response) => socket.emit('print_error', response)
+      );
+      if (!data) return;
+
+      if (!guardSocket(socket, role(), 'print_command', 'print', (response) => socket.emit('print_error', response))) {
+        return;
+      }
+      if (!mayAccess(data.code)) {
+        rejectSocketTenant(socket, 'print_command', data.code, (response) => socket.emit('print_error', response));
+        return;
+      }
+
+      // Expiry date from the restaurant's shelf-life rules; no rule and no expiryDate - no label
+      const shelfLife = shelfLifeManager.apply(data.code, data.labelData);
+      if (shelfLife.success === false) {
+        socket.emit('print_error', {
+          success: false,
+          error: 'Validation failed',
+          code: 'VALIDATION_FAILED',
+          details: shelfLife.errors,
+        });
+        return;
+      }
+
       try {
         logger.info('Print command received from web client', { 
           socketId: socket.id, 
           code: data.code,
-          userInfo: data.userInfo 
+          userInfo: data.userInfo,
+          shelfLifeRuleId: shelfLife.shelfLife?.ruleId,
         });
 
         // Пересылаем команду всем агентам в комнате ресторана
         const roomName = `restaurant:${data.code}`;
         const printJobData = {
           jobId: `job-${Date.now()}`,
-          labelData: data.labelData,
+          labelData: shelfLife.labelData,
           timestamp: Date.now()
         };
         
@@ -486,7 +791,7 @@ export function initializeSocketHandlers(io: Server): void {
     socket.on('get-agents', (callback?: (response: any) => void) => {
       const agents = socket.data.restaurantId
         ? agentManager.getAgentsByRestaurant(socket.data.restaurantId)
-        : agentManager.getAllAgents();
+        : allowedAgents();
 
       if (callback) {
         callback({ agents });
@@ -497,21 +802,29 @@ export function initializeSocketHandlers(io: Server): void {
 
     // Legacy support: get_connected_agents (веб-приложение)
     socket.on('get_connected_agents', (callback?: (response: any) => void) => {
-      const allAgents = agentManager.getAllAgents();
+      const agents = allowedAgents();
       logger.info('get_connected_agents request', { 
         socketId: socket.id, 
-        agentsCount: allAgents.length 
+        agentsCount: agents.length 
       });
 
-      socket.emit('connected-agents', allAgents);
+      socket.emit('connected-agents', agents);
 
       if (callback) {
-        callback({ agents: allAgents });
+        callback({ agents });
       }
     });
 
     // Get agents in specific room (by pairing code)
-    socket.on('get_agents_in_room', (roomCode: string, callback?: (response: any) => void) => {
+    socket.on('get_agents_in_room', (payload: unknown, callback?: (response: any) => void) => {
+      const roomCode = validateSocketPayload(socket, 'get_agents_in_room', roomCodeSchema, payload, callback);
+      if (!roomCode) return;
+
+      if (!mayAccess(roomCode)) {
+        rejectSocketTenant(socket, 'get_agents_in_room', roomCode, callback);
+        return;
+      }
+
       const agents = agentManager.getAgentsByRestaurant(roomCode);
       logger.info('get_agents_in_room request', { 
         socketId: socket.id, 
@@ -527,7 +840,15 @@ export function initializeSocketHandlers(io: Server): void {
     });
 
     // Join room (by pairing code)
-    socket.on('join_room', (roomCode: string) => {
+    socket.on('join_room', (payload: unknown) => {
+      const roomCode = validateSocketPayload(socket, 'join_room', roomCodeSchema, payload);
+      if (!roomCode) return;
+
+      if (!mayAccess(roomCode)) {
+        rejectSocketTenant(socket, 'join_room', roomCode);
+        return;
+      }
+
       logger.info('Client joining room', { socketId: socket.id, roomCode });
       socket.join(`restaurant:${roomCode}`);
       socket.data.restaurantId = roomCode;
@@ -535,10 +856,13 @@ export function initializeSocketHandlers(io: Server): void {
 
     // Handle get stats request
     socket.on('get-stats', (callback?: (response: any) => void) => {
+      const restaurantIds = allowedRestaurants();
       const stats = {
-        connectedAgents: agentManager.getCount(),
-        restaurantAgents: agentManager.getAgentsByRestaurantGrouped(),
-        printStats: printQueueManager.getStats(),
+        connectedAgents: allowedAgents().length,
+        restaurantAgents: Object.fromEntries(
+          restaurantIds.map((id) => [id, agentManager.getAgentsByRestaurant(id).length])
+        ),
+        printStats: printQueueManager.getStats(restaurantIds),
         uptime: process.uptime(),
         memoryUsage: process.memoryUsage(),
       };
@@ -558,12 +882,23 @@ export function initializeSocketHandlers(io: Server): void {
         agentId: socket.data.agentId,
       });
 
-      // Cleanup rate limiter
+      // Cleanup rate limiter and pending pairing code
       socketRateLimiter.remove(socket.id);
+      pairingManager.forgetSocket(socket.id);
 
       // Unregister agent if applicable
       if (socket.data.role === 'agent' && socket.data.restaurantId) {
+        const agent = agentManager.getAgent(socket.data.agentId);
         agentManager.unregisterBySocketId(socket.id);
+        if (agent) {
+          webhookManager.publish(agent.restaurantId, 'agent.disconnected', agentEventData(agent));
+        }
+
+        // Re-route print commands the agent never finished
+        if (socket.data.agentId) {
+          printDispatcher.handleAgentDisconnect(socket.data.agentId);
+          printerAlertManager.forgetAgent(socket.data.agentId);
+        }
 
         // 🔔 Notify clients in restaurant room about agent removal
         const roomAgents = agentManager.getAgentsByRestaurant(socket.data.restaurantId);
@@ -578,4 +913,17 @@ export function initializeSocketHandlers(io: Server): void {
   setInterval(() => {
     agentManager.cleanup();
   }, 60000); // Every minute
+
+  // Expire queued print jobs that waited too long for an agent, stale pairing codes,
+  // idempotency keys, old resolved printer alerts and old webhook deliveries
+  // (a single node does it in cluster mode)
+  setInterval(() => {
+    if (clusterManager.isLeader()) {
+      printDispatcher.expireQueued();
+      pairingManager.expire();
+      printQueueManager.expireIdempotencyKeys();
+      printerAlertManager.expire();
+      webhookManager.expireDeliveries();
+    }
+  }, 15000);
 }
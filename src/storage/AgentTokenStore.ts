@@ -0,0 +1,50 @@
+import { AgentTokenRecord } from '../types';
+
+/**
+ * Fields of a new agent token record
+ */
+export type NewAgentTokenRecord = Pick<
+  AgentTokenRecord,
+  'restaurantCode' | 'tokenPrefix' | 'tokenHash' | 'tokenSalt' | 'createdBy' | 'expiresAt'
+>;
+
+/**
+ * Changes that can be made to a stored agent token
+ */
+export type AgentTokenChanges = Partial<Pick<AgentTokenRecord, 'isActive' | 'expiresAt' | 'replacedBy' | 'lastUsedAt'>>;
+
+/**
+ * Storage backend for agent tokens (Supabase or local)
+ */
+export interface AgentTokenStore {
+  /**
+   * Insert a new active token
+   */
+  create(token: NewAgentTokenRecord): Promise<AgentTokenRecord>;
+
+  /**
+   * Get token by ID
+   */
+  get(id: string): Promise<AgentTokenRecord | undefined>;
+
+  /**
+   * Active tokens with a prefix (candidates when verifying a token)
+   */
+  findActiveByPrefix(prefix: string): Promise<AgentTokenRecord[]>;
+
+  /**
+   * Active tokens of a restaurant, newest first
+   */
+  listActive(restaurantCode: string): Promise<AgentTokenRecord[]>;
+
+  /**
+   * Update a token, returns false if it does not exist
+   */
+  update(id: string, changes: AgentTokenChanges): Promise<boolean>;
+
+  /**
+   * Record the replacement of a token, only if it is active and not
+   * replaced yet. Returns false if another rotation got there first.
+   */
+  markReplaced(id: string, changes: AgentTokenChanges & Pick<AgentTokenRecord, 'replacedBy'>): Promise<boolean>;
+}
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { PrintCommand } from '../types';
+import { logger } from '../utils/logger';
+import { MemoryPrintCommandStore } from './MemoryPrintCommandStore';
+import { reviveCommand } from './PrintCommandStore';
+
+/**
+ * Durable print command store backed by an append-only JSON Lines journal.
+ *
+ * Every save appends a full snapshot of the command; on startup the journal
+ * is replayed (last snapshot wins). The journal is compacted when it grows
+ * well beyond the number of live commands and after pruning.
+ */
+export class FilePrintCommandStore extends MemoryPrintCommandStore {
+  private readonly filePath: string;
+  private journalLines = 0;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.load();
+  }
+
+  save(command: PrintCommand): void {
+    super.save(command);
+    fs.appendFileSync(this.filePath, JSON.stringify(command) + '\n');
+    this.journalLines++;
+
+    if (this.journalLines > this.commands.size * 2 + 100) {
+      this.compact();
+    }
+  }
+
+  prune(maxSize: number): number {
+    const removed = super.prune(maxSize);
+    if (removed > 0) {
+      this.compact();
+    }
+    return removed;
+  }
+
+  close(): void {
+    this.compact();
+  }
+
+  /**
+   * Replay the journal into memory
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const command = reviveCommand(JSON.parse(line));
+        this.commands.set(command.id, command);
+        this.journalLines++;
+      } catch {
+        // Torn write from a crash - ignore the broken line
+        skipped++;
+      }
+    }
+
+    logger.info('Print command journal loaded', {
+      file: this.filePath,
+      commands: this.commands.size,
+      skippedLines: skipped,
+    });
+  }
+
+  /**
+   * Rewrite the journal with one snapshot per live command
+   */
+  private compact(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    const data = Array.from(this.commands.values())
+      .map((command) => JSON.stringify(command) + '\n')
+      .join('');
+
+    fs.writeFileSync(tmpPath, data);
+    fs.renameSync(tmpPath, this.filePath);
+    this.journalLines = this.commands.size;
+
+    logger.debug('Print command journal compacted', {
+      file: this.filePath,
+      commands: this.commands.size,
+    });
+  }
+}
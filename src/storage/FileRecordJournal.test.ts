@@ -0,0 +1,56 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IdempotencyKeyRecord } from '../types';
+import { FileRecordJournal } from './FileRecordJournal';
+import { reviveDates } from './RecordStore';
+
+describe('FileRecordJournal', () => {
+  let dir: string;
+  let filePath: string;
+
+  const open = () => new FileRecordJournal<IdempotencyKeyRecord>(filePath, reviveDates('expiresAt'));
+  const key = (id: string): IdempotencyKeyRecord => ({ id, commandId: `c-${id}`, expiresAt: new Date() });
+  const lines = () => fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'record-journal-'));
+    filePath = path.join(dir, 'idempotency-keys.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends one line per change and replays them on open', () => {
+    const journal = open();
+    journal.save(key('k1'));
+    journal.save(key('k2'));
+    journal.delete('k1');
+
+    expect(lines()).toHaveLength(3);
+
+    const reopened = open();
+    expect(reopened.list().map((r) => r.id)).toEqual(['k2']);
+    expect(reopened.get('k2').expiresAt).toBeInstanceOf(Date);
+  });
+
+  it('compacts the journal once it outgrows the live records', () => {
+    const journal = open();
+    for (let i = 0; i < 120; i++) {
+      journal.save(key(`k${i}`));
+      journal.delete(`k${i}`);
+    }
+
+    expect(lines().length).toBeLessThan(120);
+    journal.close();
+    expect(lines()).toHaveLength(0);
+  });
+
+  it('skips a torn last line', () => {
+    open().save(key('k1'));
+    fs.appendFileSync(filePath, '{"id":"k2","comm');
+
+    expect(open().list().map((r) => r.id)).toEqual(['k1']);
+  });
+});
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { MemoryRecordStore } from './MemoryRecordStore';
+import { RecordReviver, StoredRecord } from './RecordStore';
+
+// Journal line of a deleted record
+interface DeletedLine {
+  deleted: string;
+}
+
+/**
+ * Durable record store for collections that change with every print
+ * (idempotency keys, delivery logs, ...), backed by an append-only JSON
+ * Lines journal like FilePrintCommandStore: every save appends a snapshot
+ * of the record and every delete a tombstone, so a change costs one short
+ * write instead of rewriting the whole file. The journal is compacted when
+ * it grows well beyond the number of live records.
+ */
+export class FileRecordJournal<T extends StoredRecord> extends MemoryRecordStore<T> {
+  private journalLines = 0;
+
+  constructor(private readonly filePath: string, private readonly revive: RecordReviver<T>) {
+    super();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.load();
+  }
+
+  save(record: T): void {
+    super.save(record);
+    this.append(record);
+  }
+
+  delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.append({ deleted: id });
+    }
+    return deleted;
+  }
+
+  close(): void {
+    this.compact();
+  }
+
+  private append(line: T | DeletedLine): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(line) + '\n');
+    this.journalLines++;
+
+    if (this.journalLines > this.records.size * 2 + 100) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Replay the journal into memory
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line);
+        if (typeof entry.deleted === 'string') {
+          this.records.delete(entry.deleted);
+        } else {
+          const record = this.revive(entry);
+          this.records.set(record.id, record);
+        }
+        this.journalLines++;
+      } catch {
+        // Torn write from a crash - ignore the broken line
+        skipped++;
+      }
+    }
+
+    logger.info('Record journal loaded', {
+      file: this.filePath,
+      records: this.records.size,
+      skippedLines: skipped,
+    });
+  }
+
+  /**
+   * Rewrite the journal with one snapshot per live record
+   */
+  private compact(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    const data = Array.from(this.records.values())
+      .map((record) => JSON.stringify(record) + '\n')
+      .join('');
+
+    fs.writeFileSync(tmpPath, data);
+    fs.renameSync(tmpPath, this.filePath);
+    this.journalLines = this.records.size;
+
+    logger.debug('Record journal compacted', {
+      file: this.filePath,
+      records: this.records.size,
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { MemoryRecordStore } from './MemoryRecordStore';
+import { RecordReviver, StoredRecord } from './RecordStore';
+
+/**
+ * Durable record store backed by a JSON file. Collections are small, so
+ * the whole file is rewritten (atomically, via rename) on every change.
+ */
+export class FileRecordStore<T extends StoredRecord> extends MemoryRecordStore<T> {
+  constructor(private readonly filePath: string, revive: RecordReviver<T>) {
+    super();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    if (fs.existsSync(filePath)) {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as any[];
+      for (const item of raw) {
+        const record = revive(item);
+        this.records.set(record.id, record);
+      }
+      logger.info('Record store loaded', { file: filePath, records: this.records.size });
+    }
+  }
+
+  save(record: T): void {
+    super.save(record);
+    this.flush();
+  }
+
+  delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.flush();
+    }
+    return deleted;
+  }
+
+  private flush(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(Array.from(this.records.values()), null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
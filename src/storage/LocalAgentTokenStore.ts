@@ -0,0 +1,55 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AgentTokenRecord } from '../types';
+import { AgentTokenChanges, AgentTokenStore, NewAgentTokenRecord } from './AgentTokenStore';
+import { RecordStore } from './RecordStore';
+
+/**
+ * Agent tokens kept by the server itself (a JSON file with the file
+ * storage driver), for installations without Supabase and for tests
+ */
+export class LocalAgentTokenStore implements AgentTokenStore {
+  constructor(private records: RecordStore<AgentTokenRecord>) {}
+
+  async create(token: NewAgentTokenRecord): Promise<AgentTokenRecord> {
+    const record: AgentTokenRecord = {
+      ...token,
+      id: uuidv4(),
+      isActive: true,
+      createdAt: new Date(),
+    };
+    this.records.save(record);
+    return record;
+  }
+
+  async get(id: string): Promise<AgentTokenRecord | undefined> {
+    return this.records.get(id);
+  }
+
+  async findActiveByPrefix(prefix: string): Promise<AgentTokenRecord[]> {
+    return this.records.list((record) => record.isActive && record.tokenPrefix === prefix);
+  }
+
+  async listActive(restaurantCode: string): Promise<AgentTokenRecord[]> {
+    return this.records
+      .list((record) => record.isActive && record.restaurantCode === restaurantCode)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async update(id: string, changes: AgentTokenChanges): Promise<boolean> {
+    const record = this.records.get(id);
+    if (!record) {
+      return false;
+    }
+    this.records.save({ ...record, ...changes });
+    return true;
+  }
+
+  async markReplaced(id: string, changes: AgentTokenChanges & Pick<AgentTokenRecord, 'replacedBy'>): Promise<boolean> {
+    const record = this.records.get(id);
+    if (!record || !record.isActive || record.replacedBy) {
+      return false;
+    }
+    this.records.save({ ...record, ...changes });
+    return true;
+  }
+}
@@ -0,0 +1,37 @@
+import { PrintCommand } from '../types';
+import { MemoryPrintCommandStore } from './MemoryPrintCommandStore';
+
+const command = (id: string, status: PrintCommand['status'], minute: number): PrintCommand => ({
+  id,
+  restaurantId: 'r1',
+  userId: 'u1',
+  agentId: null,
+  labelData: { productName: 'Борщ', preparationDate: '2026-10-19', storageMethod: 'охлаждение' },
+  status,
+  createdAt: new Date(Date.UTC(2026, 9, 19, 10, minute)),
+});
+
+describe('MemoryPrintCommandStore', () => {
+  it('prunes the oldest finished commands first', () => {
+    const store = new MemoryPrintCommandStore();
+    store.save(command('c1', 'success', 1));
+    store.save(command('c2', 'failed', 2));
+    store.save(command('c3', 'success', 3));
+    store.save(command('c4', 'success', 4));
+
+    expect(store.prune(2)).toBe(2);
+    expect(store.list().map((c) => c.id)).toEqual(['c4', 'c3']);
+  });
+
+  it('keeps queued and in-flight commands beyond the history size', () => {
+    const store = new MemoryPrintCommandStore();
+    store.save(command('queued', 'queued', 1));
+    store.save(command('pending', 'pending', 2));
+    store.save(command('printing', 'printing', 3));
+    store.save(command('dead', 'dead-letter', 4));
+    store.save(command('cancelled', 'cancelled', 5));
+
+    expect(store.prune(1)).toBe(2);
+    expect(store.list().map((c) => c.id)).toEqual(['printing', 'pending', 'queued']);
+  });
+});
@@ -0,0 +1,43 @@
+import { PrintCommand } from '../types';
+import { FINAL_STATUSES, PrintCommandQuery, PrintCommandStore, queryCommands } from './PrintCommandStore';
+
+/**
+ * Volatile print command store (tests and local development)
+ */
+export class MemoryPrintCommandStore implements PrintCommandStore {
+  protected commands: Map<string, PrintCommand> = new Map();
+
+  save(command: PrintCommand): void {
+    this.commands.set(command.id, command);
+  }
+
+  get(commandId: string): PrintCommand | undefined {
+    return this.commands.get(commandId);
+  }
+
+  list(query?: PrintCommandQuery): PrintCommand[] {
+    return queryCommands(this.commands.values(), query);
+  }
+
+  count(): number {
+    return this.commands.size;
+  }
+
+  prune(maxSize: number): number {
+    if (this.commands.size <= maxSize) {
+      return 0;
+    }
+
+    // Oldest finished commands first; queued and in-flight ones stay
+    const finished = queryCommands(this.commands.values(), { status: FINAL_STATUSES });
+    const toRemove = finished.slice(Math.max(finished.length - (this.commands.size - maxSize), 0));
+    for (const command of toRemove) {
+      this.commands.delete(command.id);
+    }
+    return toRemove.length;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,38 @@
+import { RecordStore, StoredRecord } from './RecordStore';
+
+/**
+ * Volatile record store (tests and local development)
+ */
+export class MemoryRecordStore<T extends StoredRecord> implements RecordStore<T> {
+  protected records: Map<string, T> = new Map();
+
+  get(id: string): T | undefined {
+    return this.records.get(id);
+  }
+
+  list(filter?: (record: T) => boolean): T[] {
+    const records = Array.from(this.records.values());
+    return filter ? records.filter(filter) : records;
+  }
+
+  save(record: T): void {
+    this.records.set(record.id, record);
+  }
+
+  async saveIfAbsent(record: T, _ttlMs: number): Promise<T> {
+    const existing = this.records.get(record.id);
+    if (existing) {
+      return existing;
+    }
+    this.save(record);
+    return record;
+  }
+
+  delete(id: string): boolean {
+    return this.records.delete(id);
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
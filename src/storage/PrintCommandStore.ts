@@ -0,0 +1,94 @@
+import { PrintCommand } from '../types';
+
+/**
+ * Filter for listing stored print commands
+ */
+export interface PrintCommandQuery {
+  restaurantId?: string;
+  status?: PrintCommand['status'] | PrintCommand['status'][];
+  limit?: number;
+}
+
+/**
+ * Storage backend for print commands
+ */
+export interface PrintCommandStore {
+  /**
+   * Load existing data (stores that need async initialization)
+   */
+  open?(): Promise<void>;
+
+  /**
+   * Insert or replace a command
+   */
+  save(command: PrintCommand): void;
+
+  /**
+   * Get command by ID
+   */
+  get(commandId: string): PrintCommand | undefined;
+
+  /**
+   * List commands, newest first
+   */
+  list(query?: PrintCommandQuery): PrintCommand[];
+
+  /**
+   * Total number of stored commands
+   */
+  count(): number;
+
+  /**
+   * Drop the oldest finished commands so that at most maxSize remain.
+   * Commands still queued or in flight are kept even beyond maxSize.
+   * Returns the number of removed commands.
+   */
+  prune(maxSize: number): number;
+
+  /**
+   * Flush pending writes and release resources
+   */
+  close(): void;
+}
+
+/**
+ * Statuses after which a command gets no further delivery attempts
+ */
+export const FINAL_STATUSES: PrintCommand['status'][] = ['success', 'failed', 'dead-letter', 'cancelled'];
+
+/**
+ * Apply a query to a set of commands (shared by the in-process stores)
+ */
+export const queryCommands = (
+  commands: Iterable<PrintCommand>,
+  query: PrintCommandQuery = {}
+): PrintCommand[] => {
+  const statuses = query.status
+    ? Array.isArray(query.status) ? query.status : [query.status]
+    : null;
+
+  const result = Array.from(commands).filter(
+    (cmd) =>
+      (!query.restaurantId || cmd.restaurantId === query.restaurantId) &&
+      (!statuses || statuses.includes(cmd.status))
+  );
+
+  result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  return query.limit !== undefined ? result.slice(0, query.limit) : result;
+};
+
+const DATE_FIELDS = ['createdAt', 'expiresAt', 'lastAttemptAt', 'ackedAt', 'completedAt', 'cancelledAt'] as const;
+
+/**
+ * Restore Date fields of a command parsed from JSON
+ */
+export const reviveCommand = (raw: any): PrintCommand => {
+  const command = { ...raw };
+  for (const field of DATE_FIELDS) {
+    if (command[field]) {
+      command[field] = new Date(command[field]);
+    }
+  }
+  return command as PrintCommand;
+};
@@ -0,0 +1,77 @@
+/**
+ * Record kept in a RecordStore
+ */
+export interface StoredRecord {
+  id: string;
+}
+
+/**
+ * Storage backend for small collections of records (rules, subscriptions, ...)
+ */
+export interface RecordStore<T extends StoredRecord> {
+  /**
+   * Load existing data (stores that need async initialization)
+   */
+  open?(): Promise<void>;
+
+  /**
+   * Get record by ID
+   */
+  get(id: string): T | undefined;
+
+  /**
+   * List records, optionally filtered
+   */
+  list(filter?: (record: T) => boolean): T[];
+
+  /**
+   * Insert or replace a record
+   */
+  save(record: T): void;
+
+  /**
+   * Save a record unless one with its ID exists, atomically across cluster
+   * nodes; `ttlMs` bounds how long the ID stays claimed. Resolves to the
+   * record that holds the ID: the given one or the existing one.
+   */
+  saveIfAbsent(record: T, ttlMs: number): Promise<T>;
+
+  /**
+   * Delete a record, returns false if it did not exist
+   */
+  delete(id: string): boolean;
+
+  /**
+   * Flush pending writes and release resources
+   */
+  close(): void;
+}
+
+/**
+ * How a record store is kept
+ */
+export interface RecordStoreOptions {
+  /**
+   * The collection changes with (almost) every print: the file driver keeps
+   * it in an append-only journal instead of rewriting a JSON file
+   */
+  journal?: boolean;
+}
+
+/**
+ * Restores a record parsed from JSON (e.g. Date fields)
+ */
+export type RecordReviver<T> = (raw: any) => T;
+
+/**
+ * Reviver for records whose only non-JSON fields are the given dates
+ */
+export const reviveDates = <T>(...fields: string[]): RecordReviver<T> => (raw: any): T => {
+  const record = { ...raw };
+  for (const field of fields) {
+    if (record[field]) {
+      record[field] = new Date(record[field]);
+    }
+  }
+  return record as T;
+};
@@ -0,0 +1,170 @@
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { IdempotencyKeyRecord, PrintCommand } from '../types';
+import { reviveDates } from './RecordStore';
+import { RedisPrintCommandStore } from './RedisPrintCommandStore';
+import { RedisRecordStore } from './RedisRecordStore';
+
+// In-process stand-in for Redis (Lua scripts, pub/sub and all), so cluster
+// replication is covered without a server; ClusterManager.test.ts runs the
+// same scheme against a real one
+
+const waitFor = async (check: () => boolean, timeoutMs: number = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for replication');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+// Lets writes queued in the background reach the mock
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+const command = (id: string): PrintCommand => ({
+  id,
+  restaurantId: 'r1',
+  userId: 'u1',
+  agentId: 'agent-1',
+  labelData: { productName: 'Борщ', preparationDate: '2026-10-19', storageMethod: 'охлаждение' },
+  status: 'printing',
+  attempts: 1,
+  createdAt: new Date(),
+});
+
+describe('Redis-backed stores (mocked Redis)', () => {
+  let keyPrefix: string;
+  const clients: Redis[] = [];
+  const client = (): Redis => {
+    const redis = new RedisMock() as unknown as Redis;
+    clients.push(redis);
+    return redis;
+  };
+
+  beforeEach(() => {
+    keyPrefix = `test:${Date.now()}:${Math.random()}:`;
+  });
+
+  afterAll(() => {
+    for (const redis of clients) {
+      redis.disconnect();
+    }
+  });
+
+  describe('RedisPrintCommandStore', () => {
+    const node = async (nodeId: string): Promise<RedisPrintCommandStore> => {
+      const store = new RedisPrintCommandStore(client(), client(), nodeId, keyPrefix);
+      await store.open();
+      return store;
+    };
+
+    it('replicates new commands and loads them on nodes that join later', async () => {
+      const a = await node('node-a');
+      const b = await node('node-b');
+
+      a.save(command('c1'));
+      await waitFor(() => b.get('c1') !== undefined);
+      expect(b.get('c1').createdAt).toBeInstanceOf(Date);
+
+      const late = await node('node-c');
+      expect(late.get('c1')).toMatchObject({ id: 'c1', status: 'printing', attempts: 1 });
+    });
+
+    it('keeps fields written by different nodes at the same time', async () => {
+      const a = await node('node-a');
+      const b = await node('node-b');
+      a.save(command('c2'));
+      await waitFor(() => b.get('c2') !== undefined);
+
+      // The agent's node records the ack while the sender's deadline timer
+      // records its bookkeeping, each before seeing the other's change
+      a.save({ ...a.get('c2'), ackedAt: new Date() });
+      b.save({ ...b.get('c2'), error: 'Ack deadline close', lastAttemptAt: new Date() });
+      await settle();
+
+      const late = await node('node-c');
+      expect(late.get('c2').ackedAt).toBeInstanceOf(Date);
+      expect(late.get('c2').lastAttemptAt).toBeInstanceOf(Date);
+      expect(late.get('c2').error).toBe('Ack deadline close');
+      await waitFor(() => a.get('c2').lastAttemptAt !== undefined && b.get('c2').ackedAt !== undefined);
+    });
+
+    it('lets only the first of two concurrent status changes through', async () => {
+      const a = await node('node-a');
+      const b = await node('node-b');
+      a.save(command('c3'));
+      await waitFor(() => b.get('c3') !== undefined);
+
+      a.save({ ...a.get('c3'), status: 'success', completedAt: new Date() });
+      b.save({ ...b.get('c3'), status: 'pending', error: 'Agent did not report a print result' });
+      await settle();
+
+      const late = await node('node-c');
+      expect(late.get('c3')).toMatchObject({ status: 'success' });
+      expect(late.get('c3').error).toBeUndefined();
+      // The losing node reloads the command
+      await waitFor(() => b.get('c3').status === 'success');
+      expect(a.get('c3').status).toBe('success');
+    });
+
+    it('removes pruned commands on every node', async () => {
+      const a = await node('node-a');
+      const b = await node('node-b');
+      a.save({ ...command('old'), status: 'success', createdAt: new Date(Date.now() - 1000) });
+      a.save({ ...command('new'), status: 'success' });
+      await waitFor(() => b.count() === 2);
+
+      expect(a.prune(1)).toBe(1);
+      await waitFor(() => b.get('old') === undefined);
+
+      const late = await node('node-c');
+      expect(late.list().map((c) => c.id)).toEqual(['new']);
+    });
+  });
+
+  describe('RedisRecordStore.saveIfAbsent', () => {
+    const node = async (nodeId: string): Promise<RedisRecordStore<IdempotencyKeyRecord>> => {
+      const store = new RedisRecordStore<IdempotencyKeyRecord>(
+        client(),
+        client(),
+        nodeId,
+        keyPrefix,
+        'idempotency-keys',
+        reviveDates('expiresAt')
+      );
+      await store.open();
+      return store;
+    };
+
+    const key = (commandId: string): IdempotencyKeyRecord => ({
+      id: 'r1:key-1',
+      commandId,
+      expiresAt: new Date(Date.now() + 60000),
+    });
+
+    it('gives an ID to the first of two nodes claiming it at once', async () => {
+      const a = await node('node-a');
+      const b = await node('node-b');
+
+      const [first, second] = await Promise.all([
+        a.saveIfAbsent(key('c-a'), 60000),
+        b.saveIfAbsent(key('c-b'), 60000),
+      ]);
+
+      expect(first.commandId).toBe('c-a');
+      expect(second.commandId).toBe('c-a');
+      expect(second.expiresAt).toBeInstanceOf(Date);
+      await waitFor(() => b.get('r1:key-1')?.commandId === 'c-a');
+    });
+
+    it('frees the ID when the record is deleted', async () => {
+      const a = await node('node-a');
+      await a.saveIfAbsent(key('c-a'), 60000);
+      a.delete('r1:key-1');
+      await settle();
+
+      expect((await a.saveIfAbsent(key('c-b'), 60000)).commandId).toBe('c-b');
+    });
+  });
+});
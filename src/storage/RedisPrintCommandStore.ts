@@ -0,0 +1,262 @@
+import Redis from 'ioredis';
+import { PrintCommand } from '../types';
+import { logger } from '../utils/logger';
+import { MemoryPrintCommandStore } from './MemoryPrintCommandStore';
+import { reviveCommand } from './PrintCommandStore';
+
+// Command fields as stored in Redis: one JSON-encoded value per property
+type CommandFields = Record<string, string>;
+
+type ReplicationMessage =
+  | { nodeId: string; type: 'save'; id: string; set: CommandFields; del: string[] }
+  | { nodeId: string; type: 'delete'; ids: string[] };
+
+// Write the changed fields of a command and announce them, unless the
+// status in Redis is no longer the expected one (ARGV[1], '' = any).
+// ARGV: expected status, channel, message, command ID, number of fields
+// to set, then field/value pairs, then fields to delete.
+const SAVE_COMMAND = `if ARGV[1] ~= '' and redis.call('hget', KEYS[1], 'status') ~= ARGV[1] then
+  return 0
+end
+local set = tonumber(ARGV[5])
+for i = 6, 5 + set * 2, 2 do
+  redis.call('hset', KEYS[1], ARGV[i], ARGV[i + 1])
+end
+for i = 6 + set * 2, #ARGV do
+  redis.call('hdel', KEYS[1], ARGV[i])
+end
+redis.call('sadd', KEYS[2], ARGV[4])
+redis.call('publish', ARGV[2], ARGV[3])
+return 1`;
+
+const toFields = (command: PrintCommand): CommandFields => {
+  const fields: CommandFields = {};
+  for (const [key, value] of Object.entries(command)) {
+    if (value !== undefined) {
+      fields[key] = JSON.stringify(value);
+    }
+  }
+  return fields;
+};
+
+const fromFields = (fields: CommandFields): Partial<PrintCommand> => {
+  const raw: any = {};
+  for (const [key, json] of Object.entries(fields)) {
+    raw[key] = JSON.parse(json);
+  }
+  return reviveCommand(raw);
+};
+
+/**
+ * Print command store shared by all cluster nodes.
+ *
+ * Each command is a Redis hash with one field per property; every node
+ * keeps a local replica that is loaded on open and kept current through a
+ * pub/sub channel, so reads stay synchronous. Writes go to the replica
+ * first and are propagated to Redis in the background, field by field:
+ * the node an agent is connected to records its ack and result while the
+ * node that sent the command keeps the delivery deadlines, without one
+ * erasing the other's fields. A status change is a compare-and-set against
+ * the status this node last saw; a node that loses the race reloads the
+ * command from Redis.
+ */
+export class RedisPrintCommandStore extends MemoryPrintCommandStore {
+  private readonly idsKey: string;
+  private readonly keyPrefix: string;
+  private readonly channel: string;
+  // Fields of each command as last written to or received from Redis
+  private synced: Map<string, CommandFields> = new Map();
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly subscriber: Redis,
+    private readonly nodeId: string,
+    keyPrefix: string
+  ) {
+    super();
+    this.idsKey = `${keyPrefix}prints:ids`;
+    this.keyPrefix = `${keyPrefix}prints:`;
+    this.channel = `${keyPrefix}prints:changes`;
+  }
+
+  async open(): Promise<void> {
+    this.subscriber.on('message', (channel, message) => {
+      if (channel === this.channel) {
+        this.applyRemote(message);
+      }
+    });
+    await this.subscriber.subscribe(this.channel);
+
+    const ids = await this.redis.smembers(this.idsKey);
+    const pipeline = this.redis.pipeline();
+    for (const id of ids) {
+      pipeline.hgetall(this.commandKey(id));
+    }
+    const results = (await pipeline.exec()) || [];
+
+    results.forEach(([error, fields], index) => {
+      if (!error && fields && Object.keys(fields).length > 0) {
+        this.synced.set(ids[index], fields as CommandFields);
+        this.commands.set(ids[index], fromFields(fields as CommandFields) as PrintCommand);
+      }
+    });
+
+    logger.info('Print commands loaded from Redis', {
+      commands: this.commands.size,
+    });
+  }
+
+  save(command: PrintCommand): void {
+    super.save(command);
+
+    const fields = toFields(command);
+    const previous = this.synced.get(command.id) || {};
+    const set = Object.entries(fields).filter(([key, json]) => previous[key] !== json);
+    const del = Object.keys(previous).filter((key) => !(key in fields));
+    if (set.length === 0 && del.length === 0) {
+      return;
+    }
+    this.synced.set(command.id, fields);
+
+    // Only a status change has to start from the status this node saw
+    const expectedStatus = previous.status && fields.status !== previous.status ? previous.status : '';
+    const message: ReplicationMessage = {
+      nodeId: this.nodeId,
+      type: 'save',
+      id: command.id,
+      set: Object.fromEntries(set),
+      del,
+    };
+
+    this.redis
+      .eval(
+        SAVE_COMMAND,
+        2,
+        this.commandKey(command.id),
+        this.idsKey,
+        expectedStatus,
+        this.channel,
+        JSON.stringify(message),
+        command.id,
+        set.length,
+        ...set.flat(),
+        ...del
+      )
+      .then((applied) => {
+        if (applied !== 1) {
+          logger.warn('Print command status changed on another node, reloading it', {
+            commandId: command.id,
+            status: command.status,
+          });
+          return this.reload(command.id);
+        }
+      })
+      .catch((error) => {
+        logger.error('Failed to replicate print command', {
+          commandId: command.id,
+          error: error.message,
+        });
+      });
+  }
+
+  prune(maxSize: number): number {
+    const before = new Set(this.commands.keys());
+    const removed = super.prune(maxSize);
+
+    if (removed > 0) {
+      const ids = Array.from(before).filter((id) => !this.commands.has(id));
+      for (const id of ids) {
+        this.synced.delete(id);
+      }
+      this.redis
+        .multi()
+        .del(...ids.map((id) => this.commandKey(id)))
+        .srem(this.idsKey, ...ids)
+        .publish(this.channel, JSON.stringify({ nodeId: this.nodeId, type: 'delete', ids }))
+        .exec()
+        .catch((error) => {
+          logger.error('Failed to prune print commands in Redis', { error: error.message });
+        });
+    }
+
+    return removed;
+  }
+
+  close(): void {
+    this.subscriber.unsubscribe(this.channel).catch(() => undefined);
+  }
+
+  private commandKey(id: string): string {
+    return `${this.keyPrefix}${id}`;
+  }
+
+  /**
+   * Replace the local replica of a command with its state in Redis
+   */
+  private async reload(id: string): Promise<void> {
+    const fields = await this.redis.hgetall(this.commandKey(id));
+    if (Object.keys(fields).length === 0) {
+      return;
+    }
+    this.synced.set(id, fields);
+    this.replace(id, fromFields(fields));
+  }
+
+  /**
+   * Apply a command's fields, keeping object identity - callers may hold a reference
+   */
+  private replace(id: string, command: Partial<PrintCommand>): void {
+    const local = this.commands.get(id);
+    if (!local) {
+      this.commands.set(id, command as PrintCommand);
+      return;
+    }
+    for (const key of Object.keys(local)) {
+      delete (local as any)[key];
+    }
+    Object.assign(local, command);
+  }
+
+  /**
+   * Apply a change published by another node
+   */
+  private applyRemote(message: string): void {
+    try {
+      const change = JSON.parse(message) as ReplicationMessage;
+      if (change.nodeId === this.nodeId) {
+        return;
+      }
+
+      if (change.type === 'delete') {
+        for (const id of change.ids) {
+          this.commands.delete(id);
+          this.synced.delete(id);
+        }
+        return;
+      }
+
+      const fields = { ...this.synced.get(change.id), ...change.set };
+      for (const key of change.del) {
+        delete fields[key];
+      }
+
+      if (!fields.id) {
+        // Only part of a command this node never saw - fetch all of it
+        this.reload(change.id).catch((error) => {
+          logger.error('Failed to load print command from Redis', {
+            commandId: change.id,
+            error: error.message,
+          });
+        });
+        return;
+      }
+
+      this.synced.set(change.id, fields);
+      this.replace(change.id, fromFields(fields));
+    } catch (error) {
+      logger.warn('Ignoring malformed print replication message', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
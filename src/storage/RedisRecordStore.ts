@@ -0,0 +1,140 @@
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+import { MemoryRecordStore } from './MemoryRecordStore';
+import { RecordReviver, StoredRecord } from './RecordStore';
+
+type ReplicationMessage =
+  | { nodeId: string; type: 'save'; record: any }
+  | { nodeId: string; type: 'delete'; id: string };
+
+// Delete a record and announce it; its claim (see saveIfAbsent) is only
+// dropped while it still holds this record, not a newer one.
+// ARGV: record ID, record JSON, channel, message.
+const DELETE_RECORD = `redis.call('hdel', KEYS[1], ARGV[1])
+if redis.call('get', KEYS[2]) == ARGV[2] then
+  redis.call('del', KEYS[2])
+end
+redis.call('publish', ARGV[3], ARGV[4])
+return 1`;
+
+/**
+ * Record store shared by all cluster nodes: a Redis hash plus a local
+ * replica kept current over pub/sub (same scheme as RedisPrintCommandStore)
+ */
+export class RedisRecordStore<T extends StoredRecord> extends MemoryRecordStore<T> {
+  private readonly hashKey: string;
+  private readonly channel: string;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly subscriber: Redis,
+    private readonly nodeId: string,
+    keyPrefix: string,
+    name: string,
+    private readonly revive: RecordReviver<T>
+  ) {
+    super();
+    this.hashKey = `${keyPrefix}${name}`;
+    this.channel = `${keyPrefix}${name}:changes`;
+  }
+
+  async open(): Promise<void> {
+    this.subscriber.on('message', (channel, message) => {
+      if (channel === this.channel) {
+        this.applyRemote(message);
+      }
+    });
+    await this.subscriber.subscribe(this.channel);
+
+    const entries = await this.redis.hgetall(this.hashKey);
+    for (const json of Object.values(entries)) {
+      const record = this.revive(JSON.parse(json));
+      this.records.set(record.id, record);
+    }
+  }
+
+  save(record: T): void {
+    super.save(record);
+    this.replicate(
+      { nodeId: this.nodeId, type: 'save', record },
+      this.redis.multi().hset(this.hashKey, record.id, JSON.stringify(record))
+    );
+  }
+
+  /**
+   * The ID is claimed with SET NX under its own key, which expires after
+   * `ttlMs`; the first node to claim it saves the record
+   */
+  async saveIfAbsent(record: T, ttlMs: number): Promise<T> {
+    const claimKey = this.claimKey(record.id);
+    const claimed = await this.redis.set(claimKey, JSON.stringify(record), 'PX', ttlMs, 'NX');
+    if (claimed) {
+      this.save(record);
+      return record;
+    }
+
+    const existing = await this.redis.get(claimKey);
+    // The claim expired in between - try again
+    return existing ? this.revive(JSON.parse(existing)) : this.saveIfAbsent(record, ttlMs);
+  }
+
+  delete(id: string): boolean {
+    const record = this.records.get(id);
+    const deleted = super.delete(id);
+    if (deleted) {
+      const message: ReplicationMessage = { nodeId: this.nodeId, type: 'delete', id };
+      this.redis
+        .eval(
+          DELETE_RECORD,
+          2,
+          this.hashKey,
+          this.claimKey(id),
+          id,
+          JSON.stringify(record),
+          this.channel,
+          JSON.stringify(message)
+        )
+        .catch((error) => {
+          logger.error('Failed to replicate record', { store: this.hashKey, error: error.message });
+        });
+    }
+    return deleted;
+  }
+
+  close(): void {
+    this.subscriber.unsubscribe(this.channel).catch(() => undefined);
+  }
+
+  private claimKey(id: string): string {
+    return `${this.hashKey}:claims:${id}`;
+  }
+
+  private replicate(message: ReplicationMessage, multi: ReturnType<Redis['multi']>): void {
+    multi
+      .publish(this.channel, JSON.stringify(message))
+      .exec()
+      .catch((error) => {
+        logger.error('Failed to replicate record', { store: this.hashKey, error: error.message });
+      });
+  }
+
+  private applyRemote(message: string): void {
+    try {
+      const change = JSON.parse(message) as ReplicationMessage;
+      if (change.nodeId === this.nodeId) {
+        return;
+      }
+      if (change.type === 'save') {
+        const record = this.revive(change.record);
+        this.records.set(record.id, record);
+      } else {
+        this.records.delete(change.id);
+      }
+    } catch (error) {
+      logger.warn('Ignoring malformed record replication message', {
+        store: this.hashKey,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AgentTokenRecord } from '../types';
+import { AgentTokenChanges, AgentTokenStore, NewAgentTokenRecord } from './AgentTokenStore';
+
+const COLUMNS =
+  'id, restaurant_code, token_prefix, token_hash, token_salt, is_active, created_by, created_at, last_used_at, expires_at, replaced_by';
+
+const toDate = (value?: string | null): Date | undefined => (value ? new Date(value) : undefined);
+const toTimestamp = (value?: Date): string | null => (value ? value.toISOString() : null);
+
+const fromRow = (row: any): AgentTokenRecord => ({
+  id: row.id,
+  restaurantCode: row.restaurant_code,
+  tokenPrefix: row.token_prefix,
+  tokenHash: row.token_hash,
+  tokenSalt: row.token_salt,
+  isActive: row.is_active,
+  createdBy: row.created_by || undefined,
+  createdAt: new Date(row.created_at),
+  lastUsedAt: toDate(row.last_used_at),
+  expiresAt: toDate(row.expires_at),
+  replacedBy: row.replaced_by || undefined,
+});
+
+const toChangesRow = (changes: AgentTokenChanges): Record<string, unknown> => {
+  const row: Record<string, unknown> = {};
+  if (changes.isActive !== undefined) row.is_active = changes.isActive;
+  if ('expiresAt' in changes) row.expires_at = toTimestamp(changes.expiresAt);
+  if (changes.replacedBy !== undefined) row.replaced_by = changes.replacedBy;
+  if (changes.lastUsedAt !== undefined) row.last_used_at = toTimestamp(changes.lastUsedAt);
+  return row;
+};
+
+/**
+ * Agent tokens in the Supabase `agent_tokens` table
+ */
+export class SupabaseAgentTokenStore implements AgentTokenStore {
+  constructor(private client: () => SupabaseClient) {}
+
+  async create(token: NewAgentTokenRecord): Promise<AgentTokenRecord> {
+    const { data, error } = await this.client()
+      .from('agent_tokens')
+      .insert({
+        restaurant_code: token.restaurantCode,
+        token_prefix: token.tokenPrefix,
+        token_hash: token.tokenHash,
+        token_salt: token.tokenSalt,
+        created_by: token.createdBy,
+        is_active: true,
+        expires_at: toTimestamp(token.expiresAt),
+      })
+      .select(COLUMNS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save agent token: ${error.message}`);
+    }
+    return fromRow(data);
+  }
+
+  async get(id: string): Promise<AgentTokenRecord | undefined> {
+    const { data, error } = await this.client().from('agent_tokens').select(COLUMNS).eq('id', id).maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load agent token: ${error.message}`);
+    }
+    return data ? fromRow(data) : undefined;
+  }
+
+  async findActiveByPrefix(prefix: string): Promise<AgentTokenRecord[]> {
+    const { data, error } = await this.client()
+      .from('agent_tokens')
+      .select(COLUMNS)
+      .eq('token_prefix', prefix)
+      .eq('is_active', true);
+
+    if (error) {
+      throw new Error(`Failed to load agent tokens: ${error.message}`);
+    }
+    return (data || []).map(fromRow);
+  }
+
+  async listActive(restaurantCode: string): Promise<AgentTokenRecord[]> {
+    const { data, error } = await this.client()
+      .from('agent_tokens')
+      .select(COLUMNS)
+      .eq('restaurant_code', restaurantCode)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load agent tokens: ${error.message}`);
+    }
+    return (data || []).map(fromRow);
+  }
+
+  async update(id: string, changes: AgentTokenChanges): Promise<boolean> {
+    const { data, error } = await this.client().from('agent_tokens').update(toChangesRow(changes)).eq('id', id).select('id');
+
+    if (error) {
+      throw new Error(`Failed to update agent token: ${error.message}`);
+    }
+    return (data || []).length > 0;
+  }
+
+  async markReplaced(id: string, changes: AgentTokenChanges & Pick<AgentTokenRecord, 'replacedBy'>): Promise<boolean> {
+    // The filter makes the update a compare-and-set: a concurrent rotation matches no row
+    const { data, error } = await this.client()
+      .from('agent_tokens')
+      .update(toChangesRow(changes))
+      .eq('id', id)
+      .eq('is_active', true)
+      .is('replaced_by', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update agent token: ${error.message}`);
+    }
+    return (data || []).length > 0;
+  }
+}
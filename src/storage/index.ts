@@ -0,0 +1,144 @@
+import path from 'path';
+import Redis from 'ioredis';
+import { config } from '../config';
+import { PrintCommandStore } from './PrintCommandStore';
+import { MemoryPrintCommandStore } from './MemoryPrintCommandStore';
+import { FilePrintCommandStore } from './FilePrintCommandStore';
+import { RedisPrintCommandStore } from './RedisPrintCommandStore';
+import { RecordReviver, RecordStore, RecordStoreOptions, StoredRecord, reviveDates } from './RecordStore';
+import { MemoryRecordStore } from './MemoryRecordStore';
+import { FileRecordStore } from './FileRecordStore';
+import { FileRecordJournal } from './FileRecordJournal';
+import { RedisRecordStore } from './RedisRecordStore';
+import { AgentTokenStore } from './AgentTokenStore';
+import { SupabaseAgentTokenStore } from './SupabaseAgentTokenStore';
+import { LocalAgentTokenStore } from './LocalAgentTokenStore';
+import { createRedisClient, getRedis } from '../utils/redis';
+import { getSupabaseAdmin } from '../utils/supabase';
+import { AgentTokenRecord } from '../types';
+
+export * from './PrintCommandStore';
+export { MemoryPrintCommandStore } from './MemoryPrintCommandStore';
+export { FilePrintCommandStore } from './FilePrintCommandStore';
+export { RedisPrintCommandStore } from './RedisPrintCommandStore';
+export * from './RecordStore';
+export { MemoryRecordStore } from './MemoryRecordStore';
+export { FileRecordStore } from './FileRecordStore';
+export { FileRecordJournal } from './FileRecordJournal';
+export { RedisRecordStore } from './RedisRecordStore';
+export * from './AgentTokenStore';
+export { SupabaseAgentTokenStore } from './SupabaseAgentTokenStore';
+export { LocalAgentTokenStore } from './LocalAgentTokenStore';
+
+const recordStores: RecordStore<any>[] = [];
+let recordSubscriber: Redis | null = null;
+
+const storageDriver = (): string => (config.cluster.enabled ? 'redis' : config.storage.driver);
+
+/**
+ * Create the print command store selected by config.
+ * Cluster mode always uses Redis so every node sees the same jobs.
+ */
+export const createPrintCommandStore = (): PrintCommandStore => {
+  const driver = storageDriver();
+
+  switch (driver) {
+    case 'memory':
+      return new MemoryPrintCommandStore();
+    case 'file':
+      return new FilePrintCommandStore(path.join(config.storage.dataDir, 'print-commands.jsonl'));
+    case 'redis':
+      return new RedisPrintCommandStore(
+        getRedis(),
+        createRedisClient('prints-subscriber'),
+        config.cluster.nodeId,
+        config.redis.keyPrefix
+      );
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+};
+
+/**
+ * Create a record store for a named collection, using the same driver
+ * as the print command store
+ */
+export const createRecordStore = <T extends StoredRecord>(
+  name: string,
+  revive: RecordReviver<T> = (raw) => raw as T,
+  options: RecordStoreOptions = {}
+): RecordStore<T> => {
+  const driver = storageDriver();
+  let store: RecordStore<T>;
+
+  switch (driver) {
+    case 'memory':
+      store = new MemoryRecordStore<T>();
+      break;
+    case 'file':
+      store = options.journal
+        ? new FileRecordJournal<T>(path.join(config.storage.dataDir, `${name}.jsonl`), revive)
+        : new FileRecordStore<T>(path.join(config.storage.dataDir, `${name}.json`), revive);
+      break;
+    case 'redis':
+      if (!recordSubscriber) {
+        recordSubscriber = createRedisClient('records-subscriber');
+      }
+      store = new RedisRecordStore<T>(
+        getRedis(),
+        recordSubscriber,
+        config.cluster.nodeId,
+        config.redis.keyPrefix,
+        name,
+        revive
+      );
+      break;
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+
+  recordStores.push(store);
+  return store;
+};
+
+/**
+ * Create the agent token store selected by config. Local tokens are kept
+ * in a record store (a JSON file with the file driver).
+ */
+export const createAgentTokenStore = (): AgentTokenStore => {
+  const driver = config.agentTokens.store;
+
+  switch (driver) {
+    case 'supabase':
+      return new SupabaseAgentTokenStore(getSupabaseAdmin);
+    case 'local':
+      return new LocalAgentTokenStore(
+        createRecordStore<AgentTokenRecord>(
+          'agent-tokens',
+          reviveDates('createdAt', 'lastUsedAt', 'expiresAt')
+        )
+      );
+    default:
+      throw new Error(`Unknown agent token store: ${driver}`);
+  }
+};
+
+/**
+ * Load all record stores (call once on startup)
+ */
+export const openRecordStores = async (): Promise<void> => {
+  for (const store of recordStores) {
+    if (store.open) {
+      await store.open();
+    }
+  }
+};
+
+/**
+ * Flush and release all record stores
+ */
+export const closeRecordStores = (): void => {
+  for (const store of recordStores) {
+    store.close();
+  }
+};
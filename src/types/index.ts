@@ -1,8 +1,41 @@
 export interface PrinterInfo {
+  id?: string;  // Stable ID of the printer within its agent
   name: string;
   status: 'ready' | 'busy' | 'error';
   paperStatus?: 'ok' | 'low' | 'out';
   model?: string;
+  capabilities?: PrinterCapabilities;
+}
+
+/**
+ * Label stock size in millimetres
+ */
+export interface LabelSize {
+  widthMm: number;
+  heightMm: number;
+}
+
+/**
+ * What a printer can do, as reported by its agent. Omitted fields are unknown.
+ */
+export interface PrinterCapabilities {
+  dpi?: number;
+  labelSizes?: LabelSize[];  // Label stock the printer takes
+  mediaType?: 'direct-thermal' | 'thermal-transfer';  // Thermal transfer needs a ribbon
+  languages?: PrinterLanguage[];  // Command languages the printer understands
+  color?: boolean;
+  cutter?: boolean;
+}
+
+/**
+ * What a print job needs from the printer
+ */
+export interface PrintRequirements {
+  labelSize?: LabelSize;  // Defaults to the size of the job's layout
+  language?: PrinterLanguage;  // Render in this language instead of the printer's own
+  mediaType?: PrinterCapabilities['mediaType'];
+  color?: boolean;
+  cutter?: boolean;
 }
 
 export interface ConnectedAgent {
@@ -11,7 +44,9 @@ export interface ConnectedAgent {
   restaurantId: string | null;
   userId: string | null;
   code: string;  // Pairing code агента (8 символов A-Z0-9)
-  printerInfo: PrinterInfo | null;
+  station?: string;  // Named print station, e.g. "Холодный цех"
+  printerInfo: PrinterInfo | null;  // Default printer (first of printers)
+  printers: PrinterInfo[];  // All printers attached to the agent, each with an ID
   connectedAt: Date;
   lastSeen: Date;
   version: string;
@@ -23,25 +58,232 @@ export interface PrintCommand {
   id: string;
   restaurantId: string;
   userId: string;
-  agentId: string;
+  agentId: string | null;  // null while queued waiting for an agent
+  printerId?: string;  // Printer of the agent (requested, then the one used)
   labelData: LabelData;
-  status: 'pending' | 'printing' | 'success' | 'failed';
+  status: 'queued' | 'pending' | 'printing' | 'success' | 'failed' | 'dead-letter' | 'cancelled';
   createdAt: Date;
+  expiresAt?: Date;  // Deadline for queued jobs
+  attempts?: number;  // Delivery attempts so far
+  lastAttemptAt?: Date;
+  ackedAt?: Date;  // When the agent acknowledged the current attempt
   completedAt?: Date;
   error?: string;
+  layoutId?: string;  // Label layout for server-side rendering
+  shelfLife?: AppliedShelfLife;  // Shelf-life rule used for expiryDate
+  idempotencyKey?: string;  // Client key that deduplicates retried requests
+  copies?: number;  // Copies of the label (default 1)
+  items?: PrintCommandItem[];  // Batch jobs: labels delivered as one unit, labelData is the first one
+  reprintOf?: string;  // Command this one reprints
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  requirements?: PrintRequirements;  // Printer capabilities the job needs
+  nodeId?: string;  // Cluster node that keeps the delivery deadlines and retries
+}
+
+/**
+ * One label of a batch print command
+ */
+export interface PrintCommandItem {
+  labelData: LabelData;
+  copies: number;
+  shelfLife?: AppliedShelfLife;
+  status: 'pending' | 'success' | 'failed';
+  error?: string;
 }
 
 export interface LabelData {
   productName: string;
   category?: string;
   preparationDate: string;
-  expiryDate: string;
+  expiryDate?: string;  // Computed from shelf-life rules when omitted
   storageMethod: 'охлаждение' | 'заморозка';
   chefName?: string;
   restaurantName?: string;
   allergens?: string[];
   barcode?: string;
-  [key: string]: any;
+}
+
+/**
+ * Per-restaurant shelf-life rule. Matches labels by product name and/or
+ * category together with the storage method; a rule without product and
+ * category is the restaurant default for that storage method.
+ */
+export interface ShelfLifeRule {
+  id: string;
+  restaurantId: string;
+  productName?: string;
+  category?: string;
+  storageMethod: LabelData['storageMethod'];
+  shelfLifeHours: number;
+  description?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Per-restaurant rule that sends labels to a named station. A rule matches
+ * by category, product name and/or requesting user; the first of its
+ * stations with an agent online gets the job.
+ */
+export interface StationRoutingRule {
+  id: string;
+  restaurantId: string;
+  category?: string;
+  productName?: string;
+  userId?: string;
+  station: string;
+  fallbackStations: string[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Strategy that picks the agent for a print job
+ */
+export type AgentSelectionStrategyName = 'round-robin' | 'least-outstanding' | 'last-used' | 'capability-match';
+
+/**
+ * Per-restaurant print settings (record ID is the restaurant ID)
+ */
+export interface RestaurantSettings {
+  id: string;
+  agentSelectionStrategy?: AgentSelectionStrategyName;
+  updatedBy: string;
+  updatedAt: Date;
+}
+
+/**
+ * Printer condition an alert is raised for
+ */
+export type PrinterAlertType = 'paper-low' | 'paper-out' | 'printer-error';
+
+/**
+ * Alert about a printer that needs attention. Resolved automatically when
+ * the condition clears, or by a user.
+ */
+export interface PrinterAlert {
+  id: string;
+  restaurantId: string;
+  agentId: string;
+  printerId: string;
+  printerName: string;
+  station?: string;
+  type: PrinterAlertType;
+  severity: 'warning' | 'critical';
+  status: 'active' | 'acknowledged' | 'resolved';
+  message: string;
+  createdAt: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
+  resolvedAt?: Date;
+  resolvedBy?: string;  // User ID, or 'system' when the condition cleared
+}
+
+/**
+ * Print server events a webhook can subscribe to
+ */
+export type WebhookEventType =
+  | 'print.completed'
+  | 'print.failed'
+  | 'agent.connected'
+  | 'agent.disconnected'
+  | 'printer.alert';
+
+/**
+ * Per-restaurant subscription that POSTs events to an HTTP endpoint
+ */
+export interface WebhookSubscription {
+  id: string;
+  restaurantId: string;
+  url: string;
+  events: WebhookEventType[];
+  secret: string;  // HMAC key for X-Webhook-Signature
+  description?: string;
+  active: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * One event sent to one subscription, kept as the delivery log.
+ * The ID is sent as X-Webhook-Id and stays the same across retries.
+ */
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  restaurantId: string;
+  event: WebhookEventType;
+  body: string;  // Signed JSON payload, sent as is on every attempt
+  status: 'pending' | 'success' | 'failed';
+  attempts: number;
+  nodeId: string;  // Cluster node that retries it
+  createdAt: Date;
+  lastAttemptAt?: Date;
+  nextAttemptAt?: Date;
+  completedAt?: Date;
+  responseStatus?: number;
+  error?: string;
+}
+
+/**
+ * Agent token as stored: the token itself is never kept, only its
+ * visible prefix and salted hash
+ */
+export interface AgentTokenRecord {
+  id: string;
+  restaurantCode: string;
+  tokenPrefix: string;  // agent_<code>_<first 8 hex>
+  tokenHash: string;
+  tokenSalt: string;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  expiresAt?: Date;  // No expiry if absent
+  replacedBy?: string;  // Token issued by rotating this one
+}
+
+/**
+ * Pairing code requested by a new agent, waiting for a manager to approve it
+ */
+export interface PairingRequest {
+  id: string;  // The 6-digit code
+  socketId: string;  // Agent socket the token is pushed to
+  ip?: string;
+  deviceName?: string;
+  station?: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Shelf-life rule applied to a print command
+ */
+export interface AppliedShelfLife {
+  ruleId: string;
+  shelfLifeHours: number;
+  expiryDate: string;  // Latest expiry the rule allows
+  mode: 'computed' | 'verified';  // Filled in by the server or checked against the client's value
+}
+
+export type PrinterLanguage = 'zpl' | 'tspl' | 'epl';
+
+/**
+ * Printer-ready label rendered on the server
+ */
+export interface PrintPayload {
+  language: PrinterLanguage;
+  layoutId: string;
+  dpi: number;
+  widthMm: number;
+  heightMm: number;
+  encoding: 'utf8' | 'base64';  // base64 for non-UTF-8 charsets
+  charset: 'utf-8' | 'windows-1251';
+  data: string;
 }
 
 export interface ServerStats {
@@ -57,31 +299,127 @@ export interface ServerStats {
 export interface AuthPayload {
   userId: string;
   email: string;
-  role?: string;
+  role?: string;  // owner, manager or web-client (the default)
   restaurantId?: string;
+  restaurantIds?: string[];  // Further restaurants the user is a member of
   iat?: number;
   exp?: number;
 }
 
 export type SocketRole = 'agent' | 'web-client' | 'owner' | 'manager';
 
+/**
+ * Actions a user role may be granted
+ */
+export type Permission =
+  | 'print'
+  | 'reprint'
+  | 'cancel'
+  | 'manage-agent-tokens'
+  | 'view-history'
+  | 'manage-routing'
+  | 'manage-webhooks';
+
 export interface ClientRegistration {
   role: SocketRole;
   userId?: string;
   restaurantId?: string;
   printerInfo?: PrinterInfo;
+  printers?: PrinterInfo[];
   version?: string;
+  station?: string;  // Agents only
 }
 
 export interface PrintRequest {
   targetAgentId?: string;
+  printerId?: string;  // Printer of the target agent (or the agent that has it)
   labelData: LabelData;
   restaurantId?: string;
+  layoutId?: string;
+  idempotencyKey?: string;  // Retries with the same key return the original command
+  copies?: number;
+  requirements?: PrintRequirements;
+}
+
+/**
+ * Several labels printed as one job
+ */
+export interface PrintBatchRequest {
+  targetAgentId?: string;
+  printerId?: string;
+  items: Array<{ labelData: LabelData; copies?: number }>;
+  restaurantId?: string;
+  layoutId?: string;  // Applies to every item
+  idempotencyKey?: string;
+  requirements?: PrintRequirements;
+}
+
+/**
+ * Reprint of an earlier command. labelData fields override the original's;
+ * for batch commands itemIndex reprints a single item.
+ */
+export interface ReprintRequest {
+  commandId: string;
+  labelData?: Partial<LabelData>;
+  copies?: number;
+  layoutId?: string;
+  targetAgentId?: string;
+  printerId?: string;
+  itemIndex?: number;
+  idempotencyKey?: string;
+  requirements?: PrintRequirements;  // Defaults to the original's
+}
+
+/**
+ * Outcome of one batch item reported by the agent
+ */
+export interface PrintItemResult {
+  index: number;
+  success: boolean;
+  error?: string;
 }
 
 export interface PrintResponse {
   success: boolean;
   commandId?: string;
+  status?: PrintCommand['status'];
   message?: string;
   error?: string;
+  code?: PrintErrorCode;
+  details?: FieldError[];
+  duplicate?: boolean;  // Idempotency key seen before, commandId is the original command
+}
+
+/**
+ * Idempotency key of a print request, remembered for the idempotency window
+ * even after its command left the print history
+ */
+export interface IdempotencyKeyRecord {
+  id: string;  // `<restaurantId>:<idempotencyKey>`
+  commandId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Reason a print request was rejected
+ */
+export type PrintErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'UNKNOWN_LAYOUT'
+  | 'AGENT_NOT_FOUND'
+  | 'PRINTER_NOT_FOUND'
+  | 'PRINTER_INCOMPATIBLE'
+  | 'QUEUE_FULL'
+  | 'COMMAND_NOT_FOUND'
+  | 'NOT_CANCELLABLE'
+  | 'TENANT_FORBIDDEN'
+  | 'PERMISSION_DENIED';
+
+/**
+ * One rejected field of a payload
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+  code: string;
 }
@@ -0,0 +1,47 @@
+import { createHash } from 'crypto';
+import {
+  AGENT_TOKEN_PATTERN,
+  agentTokenPrefix,
+  hashAgentToken,
+  issueAgentToken,
+  matchesAgentToken,
+} from './agentTokens';
+
+describe('agent tokens', () => {
+  it('issues tokens in the agent token format with their prefix', () => {
+    const issued = issueAgentToken('ABCD1234');
+
+    expect(issued.token).toMatch(AGENT_TOKEN_PATTERN);
+    expect(issued.token.startsWith('agent_ABCD1234_')).toBe(true);
+    expect(issued.prefix).toBe(issued.token.slice(0, 23));
+    expect(agentTokenPrefix(issued.token)).toBe(issued.prefix);
+  });
+
+  it('stores sha256(salt || token), never the token', () => {
+    const issued = issueAgentToken('ABCD1234');
+    const expected = createHash('sha256').update(`${issued.salt}${issued.token}`).digest('hex');
+
+    expect(issued.hash).toBe(expected);
+    expect(hashAgentToken(issued.token, issued.salt)).toBe(expected);
+    expect(issued.hash).not.toContain(issued.token.slice(15));
+  });
+
+  it('salts every token differently', () => {
+    const token = 'agent_ABCD1234_0123456789abcdef0123456789abcdef';
+    const a = issueAgentToken('ABCD1234');
+    const b = issueAgentToken('ABCD1234');
+
+    expect(a.salt).not.toBe(b.salt);
+    expect(hashAgentToken(token, a.salt)).not.toBe(hashAgentToken(token, b.salt));
+  });
+
+  it('matches only the token and salt it was issued with', () => {
+    const issued = issueAgentToken('ABCD1234');
+    const other = issueAgentToken('ABCD1234');
+
+    expect(matchesAgentToken(issued.token, issued.salt, issued.hash)).toBe(true);
+    expect(matchesAgentToken(other.token, issued.salt, issued.hash)).toBe(false);
+    expect(matchesAgentToken(issued.token, other.salt, issued.hash)).toBe(false);
+    expect(matchesAgentToken(issued.token, issued.salt, 'abc')).toBe(false);
+  });
+});
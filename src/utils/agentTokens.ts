@@ -0,0 +1,51 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Agent token format: agent_<RESTAURANTCODE>_<32 hex>
+ */
+export const AGENT_TOKEN_PATTERN = /^agent_([A-Z0-9]{8})_([a-f0-9]{32})$/;
+
+// Hex characters of the key kept in the visible prefix (the other 24 stay secret)
+const PREFIX_KEY_LENGTH = 8;
+
+/**
+ * A new agent token with the parts stored for it. The token itself is
+ * only ever shown once; the server keeps its prefix and salted hash.
+ */
+export interface IssuedAgentToken {
+  token: string;
+  prefix: string;
+  salt: string;
+  hash: string;
+}
+
+/**
+ * Visible prefix of a token (`agent_<code>_<first 8 hex>`), used to find
+ * its record and to tell tokens apart in lists
+ */
+export const agentTokenPrefix = (token: string): string =>
+  token.slice(0, token.lastIndexOf('_') + 1 + PREFIX_KEY_LENGTH);
+
+/**
+ * Hex SHA-256 of the salt and the token
+ */
+export const hashAgentToken = (token: string, salt: string): string =>
+  createHash('sha256').update(salt).update(token).digest('hex');
+
+/**
+ * Generate a token for a restaurant
+ */
+export const issueAgentToken = (restaurantCode: string): IssuedAgentToken => {
+  const token = `agent_${restaurantCode}_${randomBytes(16).toString('hex')}`;
+  const salt = randomBytes(16).toString('hex');
+  return { token, prefix: agentTokenPrefix(token), salt, hash: hashAgentToken(token, salt) };
+};
+
+/**
+ * Whether a token matches a stored salted hash (constant time)
+ */
+export const matchesAgentToken = (token: string, salt: string, hash: string): boolean => {
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashAgentToken(token, salt), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,174 @@
+import { config } from '../config';
+
+type Labels = Record<string, string>;
+
+/**
+ * Sample of a metric: label values and the value
+ */
+export interface MetricSample {
+  labels?: Labels;
+  value: number;
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels = {}): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(String(value))}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatValue = (value: number): string =>
+  value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+
+const seriesKey = (labels: Labels = {}): string =>
+  JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+
+const header = (name: string, help: string, type: string): string[] => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+];
+
+/**
+ * Monotonic counter
+ */
+export class Counter implements Metric {
+  private series: Map<string, MetricSample> = new Map();
+
+  constructor(readonly name: string, private help: string) {}
+
+  inc(labels?: Labels, value: number = 1): void {
+    if (!config.monitoring.metricsEnabled) {
+      return;
+    }
+    const key = seriesKey(labels);
+    const sample = this.series.get(key) || { labels, value: 0 };
+    sample.value += value;
+    this.series.set(key, sample);
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...Array.from(this.series.values()).map((s) => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`),
+    ];
+  }
+}
+
+/**
+ * Gauge read at scrape time from the current state of the server
+ */
+export class Gauge implements Metric {
+  constructor(readonly name: string, private help: string, private collect: () => MetricSample[]) {}
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'gauge'),
+      ...this.collect().map((s) => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`),
+    ];
+  }
+}
+
+/**
+ * Histogram with cumulative buckets (upper bounds in the metric's unit)
+ */
+export class Histogram implements Metric {
+  private series: Map<string, { labels?: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(readonly name: string, private help: string, private buckets: number[]) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels?: Labels): void {
+    if (!config.monitoring.metricsEnabled || !Number.isFinite(value)) {
+      return;
+    }
+    const key = seriesKey(labels);
+    const series = this.series.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const labels = formatLabels({ ...series.labels, le: formatValue(bound) });
+        lines.push(`${this.name}_bucket${labels} ${series.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${this.name}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Metrics of this process, rendered in the Prometheus text format (0.0.4).
+ * Recording is a no-op unless `monitoring.metricsEnabled` is set.
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect: () => MetricSample[]): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return Array.from(this.metrics.values())
+      .flatMap((metric) => metric.render())
+      .join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const metricsRegistry = new MetricsRegistry();
+
+// Print delivery metrics, recorded by the print queue
+export const printJobsCreated = metricsRegistry.counter(
+  'cloudchef_print_jobs_created_total',
+  'Print jobs accepted, by restaurant'
+);
+export const printJobsCompleted = metricsRegistry.counter(
+  'cloudchef_print_jobs_completed_total',
+  'Print jobs that reached a final status, by restaurant and status'
+);
+export const printLatency = metricsRegistry.histogram(
+  'cloudchef_print_latency_seconds',
+  'Time from accepting a print job to its final status, by status',
+  [0.5, 1, 2, 5, 10, 30, 60, 120, 300, 900]
+);
+export const printAckLatency = metricsRegistry.histogram(
+  'cloudchef_print_ack_seconds',
+  'Time from sending a print command to the agent acknowledging it',
+  [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10]
+);
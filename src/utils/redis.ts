@@ -0,0 +1,31 @@
+import Redis from 'ioredis';
+import { config } from '../config';
+import { logger } from './logger';
+
+let client: Redis | null = null;
+
+/**
+ * Create a new Redis connection (subscribers need a dedicated one)
+ */
+export const createRedisClient = (name: string): Redis => {
+  const redis = new Redis(config.redis.url, {
+    password: config.redis.password,
+    connectionName: `cloudchef-print-server:${name}`,
+  });
+
+  redis.on('error', (error) => {
+    logger.error('Redis connection error', { connection: name, error: error.message });
+  });
+
+  return redis;
+};
+
+/**
+ * Shared Redis connection for regular commands
+ */
+export const getRedis = (): Redis => {
+  if (!client) {
+    client = createRedisClient('main');
+  }
+  return client;
+};
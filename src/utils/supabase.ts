@@ -1,24 +1,34 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from '../config';
 import { logger } from './logger';
 
-// Create Supabase client with service role for server-side operations
-export const supabaseAdmin = createClient(
-  config.supabase.url,
-  config.supabase.serviceRoleKey || config.supabase.anonKey,
-  {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
+let supabaseAdmin: SupabaseClient | null = null;
+
+/**
+ * Supabase client with service role for server-side operations, created
+ * on first use so the server starts without Supabase when nothing needs it
+ */
+export const getSupabaseAdmin = (): SupabaseClient => {
+  if (supabaseAdmin) {
+    return supabaseAdmin;
   }
-);
 
-// Validate Supabase connection
-if (!config.supabase.url || !config.supabase.serviceRoleKey) {
-  logger.warn('⚠️ Supabase credentials not configured. Token validation will fail.');
-} else {
-  logger.info('✅ Supabase client initialized for agent token validation');
-}
+  // Validate Supabase connection
+  if (!config.supabase.url || !config.supabase.serviceRoleKey) {
+    logger.warn('⚠️ Supabase credentials not configured. Token validation will fail.');
+  } else {
+    logger.info('✅ Supabase client initialized for agent token validation');
+  }
 
-export default supabaseAdmin;
+  supabaseAdmin = createClient(
+    config.supabase.url,
+    config.supabase.serviceRoleKey || config.supabase.anonKey,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  );
+  return supabaseAdmin;
+};
@@ -0,0 +1,74 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { config } from '../config';
+import { checkWebhookUrl, isPublicAddress, postWebhook, resolveWebhookTarget } from './webhookTarget';
+
+describe('webhook targets', () => {
+  const { allowHttp, allowPrivateTargets } = config.webhooks;
+
+  afterEach(() => {
+    Object.assign(config.webhooks, { allowHttp, allowPrivateTargets });
+  });
+
+  it.each(['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd12::1', '::ffff:127.0.0.1'])(
+    'treats %s as non-public',
+    (address) => {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  );
+
+  it.each(['8.8.8.8', '93.184.215.14', '2606:4700::1111'])('treats %s as public', (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it('requires https unless http is allowed', async () => {
+    config.webhooks.allowHttp = false;
+    await expect(checkWebhookUrl('http://93.184.215.14/hook')).resolves.toBe('Webhook URL must use https');
+    await expect(checkWebhookUrl('https://93.184.215.14/hook')).resolves.toBeUndefined();
+
+    config.webhooks.allowHttp = true;
+    await expect(checkWebhookUrl('http://93.184.215.14/hook')).resolves.toBeUndefined();
+  });
+
+  it('rejects hosts on loopback, private and link-local addresses', async () => {
+    config.webhooks.allowPrivateTargets = false;
+
+    await expect(checkWebhookUrl('https://127.0.0.1/hook')).resolves.toMatch(/non-public/);
+    await expect(checkWebhookUrl('https://[::1]:8443/hook')).resolves.toMatch(/non-public/);
+    await expect(checkWebhookUrl('https://169.254.169.254/latest/meta-data')).resolves.toMatch(/non-public/);
+    await expect(checkWebhookUrl('https://localhost/hook')).resolves.toMatch(/non-public/);
+  });
+
+  it('allows private hosts when configured for on-premise receivers', async () => {
+    config.webhooks.allowPrivateTargets = true;
+    await expect(checkWebhookUrl('https://10.0.0.5/hook')).resolves.toBeUndefined();
+  });
+
+  it('returns the checked address to connect to', async () => {
+    config.webhooks.allowPrivateTargets = false;
+    await expect(resolveWebhookTarget('https://93.184.215.14/hook')).resolves.toMatchObject({
+      address: { address: '93.184.215.14', family: 4 },
+    });
+  });
+
+  it('connects to the checked address with the original Host header', async () => {
+    let host: string | undefined;
+    const server = http.createServer((req, res) => {
+      host = req.headers.host;
+      res.writeHead(204).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      // The name does not resolve at all - only the pinned address is used
+      const url = new URL(`http://hooks.example.invalid:${port}/hook`);
+      const status = await postWebhook({ url, address: { address: '127.0.0.1', family: 4 } }, {}, '{}', 2000);
+
+      expect(status).toBe(204);
+      expect(host).toBe(`hooks.example.invalid:${port}`);
+    } finally {
+      server.close();
+    }
+  });
+});
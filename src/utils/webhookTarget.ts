@@ -0,0 +1,139 @@
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { config } from '../config';
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const nonPublic = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  nonPublic.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  nonPublic.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export const isPublicAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return !nonPublic.check(mapped[1], 'ipv4');
+  }
+
+  const family = isIP(address);
+  return family !== 0 && !nonPublic.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * A checked webhook URL and the address requests to it connect to
+ */
+export interface WebhookTarget {
+  url: URL;
+  // Resolved and checked once; unset when private targets are allowed
+  address?: LookupAddress;
+}
+
+/**
+ * Check that a webhook URL may be called: https (http only with
+ * `webhooks.allowHttp`) and, unless `webhooks.allowPrivateTargets`, a host
+ * that resolves only to public addresses, so subscriptions cannot reach
+ * the server's own network. Returns the reason a URL is rejected or the
+ * target to post to; DNS errors are thrown.
+ */
+export const resolveWebhookTarget = async (url: string): Promise<WebhookTarget | string> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid webhook URL';
+  }
+
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && config.webhooks.allowHttp)) {
+    return 'Webhook URL must use https';
+  }
+  if (config.webhooks.allowPrivateTargets) {
+    return { url: parsed };
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  const family = isIP(host);
+  const addresses: LookupAddress[] = family
+    ? [{ address: host, family }]
+    : await lookup(host, { all: true, verbatim: true });
+
+  const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+  if (blocked) {
+    return `Webhook host ${host} resolves to a non-public address (${blocked.address})`;
+  }
+  return { url: parsed, address: addresses[0] };
+};
+
+/**
+ * Reason a webhook URL is rejected (see resolveWebhookTarget)
+ */
+export const checkWebhookUrl = async (url: string): Promise<string | undefined> => {
+  const target = await resolveWebhookTarget(url);
+  return typeof target === 'string' ? target : undefined;
+};
+
+/**
+ * POST a webhook body and resolve to the response status. The connection
+ * goes to the checked address, not to a fresh DNS answer (a rebinding
+ * host cannot swap in a private address after the check); the Host header
+ * and TLS server name still carry the URL's host. Redirects are not
+ * followed.
+ */
+export const postWebhook = (
+  target: WebhookTarget,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const { address } = target;
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+      if (options.all) {
+        (callback as any)(null, [address]);
+      } else {
+        callback(null, address.address, address.family);
+      }
+    };
+
+    const request = (target.url.protocol === 'https:' ? https : http).request(
+      target.url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: address ? pinnedLookup : undefined,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { FieldError } from '../types';
+
+export * from './schemas';
+export { FieldError };
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldError[] };
+
+/**
+ * Validate a payload against a schema, collecting field-level errors
+ */
+export const validate = <S extends z.ZodTypeAny>(schema: S, payload: unknown): ValidationResult<z.infer<S>> => {
+  const result = schema.safeParse(payload);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => ({
+      field: issue.path.join('.') || '(root)',
+      message: issue.message,
+      code: issue.code,
+    })),
+  };
+};
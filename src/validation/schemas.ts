@@ -0,0 +1,340 @@
+import { z } from 'zod';
+import {
+  ClientRegistration,
+  LabelData,
+  PrintBatchRequest,
+  PrinterInfo,
+  PrintItemResult,
+  PrintRequirements,
+  PrintRequest,
+  ReprintRequest,
+  RestaurantSettings,
+  ShelfLifeRule,
+  StationRoutingRule,
+  WebhookSubscription,
+} from '../types';
+
+/**
+ * The project compiles without strictNullChecks, where zod infers every
+ * property as optional - pin schema outputs to the domain types
+ */
+const typed = <T>(schema: z.ZodTypeAny) => schema as z.ZodType<T>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * ISO date or date-time string that parses to a real date
+ */
+const dateString = z
+  .string()
+  .trim()
+  .regex(DATE_PATTERN, 'Expected an ISO date (YYYY-MM-DD) or date-time')
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+const shortText = (max: number) => z.string().trim().max(max);
+
+export const storageMethodSchema = z.enum(['охлаждение', 'заморозка']);
+
+const labelDataObject = z
+  .object({
+    productName: shortText(100).min(1, 'Product name is required'),
+    category: shortText(50).optional(),
+    preparationDate: dateString,
+    expiryDate: dateString.optional(),  // Filled in from shelf-life rules
+    storageMethod: storageMethodSchema,
+    chefName: shortText(60).optional(),
+    restaurantName: shortText(100).optional(),
+    allergens: z.array(shortText(40).min(1)).max(20).optional(),
+    barcode: z
+      .string()
+      .trim()
+      .min(1)
+      .max(48)
+      .regex(/^[\x20-\x7E]+$/, 'Barcode may only contain printable ASCII characters')
+      .optional(),
+  });
+
+export const labelDataSchema = typed<LabelData>(labelDataObject.refine(
+  (label) => !label.expiryDate || Date.parse(label.expiryDate) >= Date.parse(label.preparationDate),
+  { message: 'Expiry date must not be before preparation date', path: ['expiryDate'] }
+));
+
+const printerLanguage = z.enum(['zpl', 'tspl', 'epl']);
+const mediaType = z.enum(['direct-thermal', 'thermal-transfer']);
+
+const labelSizeSchema = z.object({
+  widthMm: z.number().positive().max(300),
+  heightMm: z.number().positive().max(300),
+});
+
+export const printerCapabilitiesSchema = z.object({
+  dpi: z.number().int().min(100).max(600).optional(),
+  labelSizes: z.array(labelSizeSchema).max(20).optional(),
+  mediaType: mediaType.optional(),
+  languages: z.array(printerLanguage).min(1).max(3).optional(),
+  color: z.boolean().optional(),
+  cutter: z.boolean().optional(),
+});
+
+export const printRequirementsSchema = typed<PrintRequirements>(z
+  .object({
+    labelSize: labelSizeSchema.optional(),
+    language: printerLanguage.optional(),
+    mediaType: mediaType.optional(),
+    color: z.boolean().optional(),
+    cutter: z.boolean().optional(),
+  })
+  .strict());
+
+export const printerInfoSchema = typed<PrinterInfo>(z.object({
+  id: z.string().trim().min(1).max(64).optional(),
+  name: shortText(100),
+  status: z.enum(['ready', 'busy', 'error']),
+  paperStatus: z.enum(['ok', 'low', 'out']).optional(),
+  model: shortText(100).optional(),
+  capabilities: printerCapabilitiesSchema.optional(),
+}));
+
+const id = z.string().trim().min(1).max(64);
+
+/**
+ * Printers of an agent: each needs an ID, unique within the agent
+ */
+const printersSchema = typed<PrinterInfo[]>(z
+  .array(z.intersection(printerInfoSchema, z.object({ id })))
+  .min(1)
+  .max(8)
+  .refine(
+    (printers) => new Set(printers.map((p) => p.id)).size === printers.length,
+    'Printer IDs must be unique'
+  ));
+
+const restaurantCode = z.string().trim().regex(/^[A-Z0-9]{8}$/, 'Expected an 8 character code (A-Z, 0-9)');
+const layoutId = z.string().trim().min(1).max(64);
+const copies = z.number().int().min(1).max(100);
+
+export const printRequestSchema = typed<PrintRequest>(z.object({
+  targetAgentId: id.optional(),
+  printerId: id.optional(),
+  labelData: labelDataSchema,
+  restaurantId: id.optional(),
+  layoutId: layoutId.optional(),
+  idempotencyKey: z.string().trim().min(1).max(128).optional(),
+  copies: copies.optional(),
+  requirements: printRequirementsSchema.optional(),
+}));
+
+export const printBatchRequestSchema = typed<PrintBatchRequest>(z.object({
+  targetAgentId: id.optional(),
+  printerId: id.optional(),
+  items: z
+    .array(z.object({ labelData: labelDataSchema, copies: copies.optional() }))
+    .min(1)
+    .max(100),
+  restaurantId: id.optional(),
+  layoutId: layoutId.optional(),
+  idempotencyKey: z.string().trim().min(1).max(128).optional(),
+  requirements: printRequirementsSchema.optional(),
+}));
+
+export const cancelPrintSchema = z.object({
+  commandId: id,
+  reason: shortText(200).optional(),
+});
+
+export const reprintRequestSchema = typed<ReprintRequest>(z.object({
+  commandId: id,
+  labelData: labelDataObject.partial().strict().optional(),
+  copies: copies.optional(),
+  layoutId: layoutId.optional(),
+  targetAgentId: id.optional(),
+  printerId: id.optional(),
+  itemIndex: z.number().int().min(0).optional(),
+  idempotencyKey: z.string().trim().min(1).max(128).optional(),
+  requirements: printRequirementsSchema.optional(),
+}));
+
+export const previewRequestSchema = z.object({
+  labelData: labelDataSchema,
+  restaurantId: id.optional(),
+  layoutId: layoutId.optional(),
+  format: z.enum(['svg', 'png', 'pdf']).optional(),
+  dpi: z.number().int().min(100).max(600).optional(),
+});
+
+const stationName = shortText(50).min(1);
+
+export const registerAgentSchema = z.object({
+  code: restaurantCode,
+  printerInfo: printerInfoSchema.optional(),
+  printers: printersSchema.optional(),
+  station: stationName.optional(),
+});
+
+export const registerSchema = typed<ClientRegistration>(z.object({
+  role: z.enum(['agent', 'web-client', 'owner', 'manager']),
+  userId: id.optional(),
+  restaurantId: id.optional(),
+  printerInfo: printerInfoSchema.optional(),
+  printers: printersSchema.optional(),
+  version: shortText(32).optional(),
+  station: stationName.optional(),
+}));
+
+export const printResultSchema = typed<{
+  commandId: string;
+  success: boolean;
+  error?: string;
+  items?: PrintItemResult[];
+}>(z.object({
+  commandId: id,
+  success: z.boolean(),
+  error: shortText(500).optional(),
+  // Batch commands: outcome per item (by index); items not listed follow `success`
+  items: z
+    .array(z.object({
+      index: z.number().int().min(0),
+      success: z.boolean(),
+      error: shortText(500).optional(),
+    }))
+    .max(100)
+    .optional(),
+}));
+
+export const printAckSchema = z.object({
+  commandId: id,
+});
+
+export const agentStatusSchema = z
+  .object({
+    printerInfo: printerInfoSchema.optional(),
+    printers: printersSchema.optional(),
+  })
+  .refine((status) => status.printerInfo || status.printers, {
+    message: 'Either printerInfo or printers is required',
+    path: ['printers'],
+  });
+
+export const printCommandSchema = z.object({
+  code: restaurantCode,
+  labelData: labelDataSchema,
+  userInfo: z.record(z.unknown()).optional(),
+});
+
+export const roomCodeSchema = id;
+
+type ShelfLifeRuleBody = Pick<
+  ShelfLifeRule,
+  'restaurantId' | 'productName' | 'category' | 'storageMethod' | 'shelfLifeHours' | 'description'
+>;
+
+const shelfLifeRuleObject = z
+  .object({
+    restaurantId: id,
+    productName: shortText(100).min(1).optional(),
+    category: shortText(50).min(1).optional(),
+    storageMethod: storageMethodSchema,
+    shelfLifeHours: z.number().positive().max(24 * 365 * 2),
+    description: shortText(200).optional(),
+  })
+  .strict();
+
+export const shelfLifeRuleSchema = typed<ShelfLifeRuleBody>(shelfLifeRuleObject);
+
+export const shelfLifeRuleUpdateSchema = typed<Partial<Omit<ShelfLifeRuleBody, 'restaurantId'>>>(
+  shelfLifeRuleObject.omit({ restaurantId: true }).partial().strict()
+);
+
+type StationRoutingRuleBody = Pick<
+  StationRoutingRule,
+  'restaurantId' | 'category' | 'productName' | 'userId' | 'station' | 'fallbackStations'
+>;
+
+const stationRoutingRuleObject = z
+  .object({
+    restaurantId: id,
+    category: shortText(50).min(1).optional(),
+    productName: shortText(100).min(1).optional(),
+    userId: id.optional(),
+    station: stationName,
+    fallbackStations: z.array(stationName).max(10).default([]),
+  })
+  .strict();
+
+export const stationRoutingRuleSchema = typed<StationRoutingRuleBody>(stationRoutingRuleObject);
+
+export const stationRoutingRuleUpdateSchema = typed<Partial<Omit<StationRoutingRuleBody, 'restaurantId'>>>(
+  stationRoutingRuleObject.omit({ restaurantId: true, fallbackStations: true })
+    .extend({ fallbackStations: z.array(stationName).max(10).optional() })
+    .partial()
+    .strict()
+);
+
+type WebhookSubscriptionBody = Pick<WebhookSubscription, 'restaurantId' | 'url' | 'events' | 'description' | 'active'>;
+
+export const webhookEventSchema = z.enum([
+  'print.completed',
+  'print.failed',
+  'agent.connected',
+  'agent.disconnected',
+  'printer.alert',
+]);
+
+const webhookSubscriptionObject = z
+  .object({
+    restaurantId: id,
+    url: z
+      .string()
+      .trim()
+      .max(500)
+      .url()
+      .refine((url) => /^https?:\/\//i.test(url), 'Expected an http(s) URL'),
+    events: z.array(webhookEventSchema).min(1).max(10),
+    description: shortText(200).optional(),
+    active: z.boolean().default(true),
+  })
+  .strict();
+
+export const webhookSubscriptionSchema = typed<WebhookSubscriptionBody>(webhookSubscriptionObject);
+
+export const webhookSubscriptionUpdateSchema = typed<Partial<Omit<WebhookSubscriptionBody, 'restaurantId'>>>(
+  webhookSubscriptionObject.omit({ restaurantId: true, active: true })
+    .extend({ active: z.boolean().optional() })
+    .partial()
+    .strict()
+);
+
+export const restaurantSettingsSchema = typed<Partial<Pick<RestaurantSettings, 'agentSelectionStrategy'>>>(z
+  .object({
+    // null resets to the server default
+    agentSelectionStrategy: z
+      .enum(['round-robin', 'least-outstanding', 'last-used', 'capability-match'])
+      .nullable()
+      .optional(),
+  })
+  .strict());
+
+const expiresInDays = z.number().int().min(1).max(3650);
+
+export const generateAgentTokenSchema = z.object({
+  restaurantCode,
+  expiresInDays: expiresInDays.optional(),  // No expiry by default
+});
+
+const pairingCode = z.string().trim().regex(/^\d{6}$/, 'Expected a 6 digit code');
+
+export const pairingCodeRequestSchema = z.object({
+  deviceName: shortText(100).min(1).optional(),
+  station: stationName.optional(),
+});
+
+export const approvePairingSchema = z.object({
+  code: pairingCode,
+  restaurantCode,
+  expiresInDays: expiresInDays.optional(),
+});
+
+export const rotateAgentTokenSchema = z.object({
+  graceHours: z.number().min(0).max(720).optional(),  // How long the replaced token keeps working, 0 = revoked at once
+  expiresInDays: expiresInDays.optional(),
+}).strict();